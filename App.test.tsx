@@ -0,0 +1,230 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { estimateRequestSize, generateStoreFrontVariants, VariantOutcome } from './services/geminiService';
+import { importProjectBundle } from './services/bundleService';
+import { saveProject } from './services/projectService';
+import { DEFAULT_SETTINGS, loadSettings } from './services/settingsService';
+import { GenerationFailure, ProjectRecord } from './types';
+import { maskDataUrl, PHOTO_HEIGHT, PHOTO_WIDTH, stubBrowserApis } from './testUtils';
+
+// Projects live in IndexedDB, which jsdom doesn't have
+vi.mock('./services/projectService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/projectService')>(),
+  loadProject: vi.fn(async () => null),
+  saveProject: vi.fn(async () => {}),
+}));
+
+vi.mock('./services/bundleService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/bundleService')>(),
+  importProjectBundle: vi.fn(),
+}));
+
+vi.mock('./services/paletteService', () => ({
+  extractPalette: vi.fn(async () => []),
+}));
+
+vi.mock('./services/uploadService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/uploadService')>(),
+  preprocessUpload: vi.fn(async (file: File) => file),
+  normalizeOrientation: vi.fn(async (file: File) => file),
+}));
+
+vi.mock('./services/compositeService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/compositeService')>(),
+  compositeDesign: vi.fn(async () => new Blob(['composite'], { type: 'image/png' })),
+}));
+
+// The generator is stubbed; everything up to the call, including the mask export, is real
+vi.mock('./services/geminiService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/geminiService')>(),
+  generateStoreFrontVariants: vi.fn(),
+  estimateRequestSize: vi.fn(async () => ({ target: 1000, mask: 100, references: 500, total: 1600 })),
+}));
+
+const fileInputs = () => Array.from(document.querySelectorAll<HTMLInputElement>('input[type="file"]'));
+
+// Uploads a reference, moves on, uploads the photo, paints the mask and types the brief
+const completeWorkspace = async (user: ReturnType<typeof userEvent.setup>) => {
+  const reference = new File(['brick'], 'brick.png', { type: 'image/png' });
+  const photo = new File(['shop'], 'shop.jpg', { type: 'image/jpeg' });
+
+  expect(screen.getByText('Step 1: Style References')).toBeInTheDocument();
+  await user.upload(fileInputs()[0], reference);
+  const next = screen.getByRole('button', { name: 'Next Step' });
+  await waitFor(() => expect(next).toBeEnabled());
+  await user.click(next);
+
+  expect(await screen.findByText('Step 2: Context & Requirements')).toBeInTheDocument();
+  await user.upload(fileInputs()[0], photo);
+  const drawingSurface = await waitFor(() => {
+    const canvas = document.querySelector<HTMLCanvasElement>('canvas.cursor-crosshair');
+    expect(canvas?.width).toBe(PHOTO_WIDTH);
+    return canvas!;
+  });
+
+  fireEvent.mouseDown(drawingSurface, { clientX: 5, clientY: 5 });
+  fireEvent.mouseMove(drawingSurface, { clientX: 20, clientY: 15 });
+  fireEvent.mouseUp(drawingSurface, { clientX: 20, clientY: 15 });
+
+  await user.type(screen.getByLabelText('Design Instructions'), 'Dark green timber frontage');
+  // The request size is only estimated once the painted mask has reached the app
+  await waitFor(() => expect(estimateRequestSize).toHaveBeenCalled(), { timeout: 3000 });
+
+  return { reference, photo };
+};
+
+type Generate = typeof generateStoreFrontVariants;
+
+// Stand-ins for the generator: every variant comes back, or every variant fails the same way
+const respond = (outcome: (index: number) => VariantOutcome): Generate => async (...args) => {
+  const [, , , , , count, , onVariant] = args;
+  return Array.from({ length: count }, (_, index) => {
+    const result = outcome(index);
+    onVariant?.(index, result);
+    return result;
+  });
+};
+
+const succeed = respond(index => ({
+  imageUrl: `data:image/png;base64,${btoa(`design ${index + 1}`)}`,
+  metadata: null,
+  error: null,
+  notes: null,
+}));
+
+const fail = (error: GenerationFailure): Generate => respond(() => ({ imageUrl: null, metadata: null, error, notes: null }));
+
+const RATE_LIMITED: GenerationFailure = { kind: 'rate-limit', message: 'Too many requests, slow down.', modelText: null };
+
+describe('App wizard', () => {
+  beforeEach(() => {
+    stubBrowserApis();
+    vi.mocked(generateStoreFrontVariants).mockReset();
+    vi.mocked(estimateRequestSize).mockClear();
+    vi.mocked(saveProject).mockClear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  // Undo the console and confirm spies so they don't leak into later tests
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('goes from references through the editor to the generated designs', async () => {
+    vi.mocked(generateStoreFrontVariants).mockImplementation(succeed);
+    const user = userEvent.setup();
+    render(<App />);
+
+    const { reference, photo } = await completeWorkspace(user);
+    await user.click(screen.getByRole('button', { name: 'Generate 2 Designs' }));
+
+    expect(await screen.findByText('Your Design Concept')).toBeInTheDocument();
+    expect(await screen.findByAltText('Variant 1')).toBeInTheDocument();
+    expect(screen.getByAltText('Variant 2')).toBeInTheDocument();
+    expect(window.location.hash).toMatch(/^#\/projects\/[a-z0-9]+\/result$/);
+
+    expect(generateStoreFrontVariants).toHaveBeenCalledTimes(1);
+    const [target, mask, regions, references, prompt, count] = vi.mocked(generateStoreFrontVariants).mock.calls[0];
+    expect(target).toBe(photo);
+    // Every pixel was painted, so the exported mask is solid white
+    expect(mask).toBe(maskDataUrl(PHOTO_WIDTH * PHOTO_HEIGHT, PHOTO_WIDTH * PHOTO_HEIGHT));
+    expect(regions).toHaveLength(1);
+    expect(regions[0].mask).toBe(mask);
+    expect(references.map(ref => ref.file)).toEqual([reference]);
+    expect(prompt.userRequest).toBe('Dark green timber frontage');
+    expect(count).toBe(2);
+  });
+
+  it('shows the failure when no design comes back', async () => {
+    vi.mocked(generateStoreFrontVariants).mockImplementation(fail(RATE_LIMITED));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<App />);
+
+    await completeWorkspace(user);
+    await user.click(screen.getByRole('button', { name: 'Generate 2 Designs' }));
+
+    expect(await screen.findByText('Too many requests, slow down.')).toBeInTheDocument();
+    expect(screen.queryByAltText('Variant 1')).not.toBeInTheDocument();
+  });
+
+  it('shows the failure above the earlier result when a later run fails', async () => {
+    vi.mocked(generateStoreFrontVariants)
+      .mockImplementationOnce(succeed)
+      .mockImplementationOnce(fail(RATE_LIMITED));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<App />);
+
+    await completeWorkspace(user);
+    await user.click(screen.getByRole('button', { name: 'Generate 2 Designs' }));
+    expect(await screen.findByAltText('Variant 1')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Adjust/ }));
+    await user.click(await screen.findByRole('button', { name: 'Generate 2 Designs' }));
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('Too many requests, slow down.');
+    expect(screen.getByAltText('Variant 1')).toBeInTheDocument();
+  });
+
+  it('explains a later timeout and offers the settings that fix it', async () => {
+    vi.mocked(generateStoreFrontVariants)
+      .mockImplementationOnce(succeed)
+      .mockImplementationOnce(fail({ kind: 'timeout', message: 'Gave up after 90 seconds.', modelText: null }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<App />);
+
+    await completeWorkspace(user);
+    await user.click(screen.getByRole('button', { name: 'Generate 2 Designs' }));
+    expect(await screen.findByAltText('Variant 1')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /Adjust/ }));
+    await user.click(await screen.findByRole('button', { name: 'Generate 2 Designs' }));
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('The model took too long');
+    expect(alert).toHaveTextContent('raise the timeout in Settings');
+    expect(within(alert).getByRole('button', { name: /Open Settings/ })).toBeInTheDocument();
+  });
+
+  it('releases the photo preview when a variant replaces it for refining', async () => {
+    vi.mocked(generateStoreFrontVariants).mockImplementation(succeed);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await completeWorkspace(user);
+    const photoPreview = screen.getByAltText('Target').getAttribute('src');
+    await user.click(screen.getByRole('button', { name: 'Generate 2 Designs' }));
+    await user.click(await screen.findByRole('button', { name: /Refine this/ }));
+
+    await waitFor(() => expect(screen.getByAltText('Target')).not.toHaveAttribute('src', photoPreview));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(photoPreview);
+  });
+
+  it('asks before an imported bundle replaces the generation settings', async () => {
+    const generation = { ...DEFAULT_SETTINGS.generation, maxRetries: 5 };
+    vi.mocked(importProjectBundle).mockResolvedValue({ record: { id: 'bakery', name: 'Corner bakery' } as ProjectRecord, generation });
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const user = userEvent.setup();
+    render(<App />);
+
+    const importBundle = async () => {
+      await user.click(screen.getByRole('button', { name: /Projects/ }));
+      const input = document.querySelector<HTMLInputElement>('input[accept=".zip,application/zip"]')!;
+      await user.upload(input, new File(['zip'], 'bakery.zip', { type: 'application/zip' }));
+    };
+
+    await importBundle();
+    await waitFor(() => expect(confirm).toHaveBeenCalledTimes(1));
+    expect(confirm.mock.calls[0][0]).toContain('"Corner bakery" was exported with other generation settings');
+    expect(loadSettings().generation.maxRetries).toBe(DEFAULT_SETTINGS.generation.maxRetries);
+
+    await importBundle();
+    await waitFor(() => expect(confirm).toHaveBeenCalledTimes(2));
+    expect(loadSettings().generation.maxRetries).toBe(5);
+  });
+});
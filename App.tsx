@@ -1,10 +1,34 @@
-import React, { useState } from 'react';
-import { ReferenceItem, AppStep, DesignState } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ReferenceItem, AppStep, AppSettings, BatchItem, DesignState, DesignVariant, GenerationFailure, GenerationNode, MaskRegion, PromptOptions, PromptTemplate, RefineSource } from './types';
 import ReferenceStep from './components/ReferenceStep';
 import DesignStep from './components/DesignStep';
 import ResultStep from './components/ResultStep';
-import { generateStoreFrontDesign } from './services/geminiService';
-import { Store } from 'lucide-react';
+import BatchStep from './components/BatchStep';
+import ProjectPicker from './components/ProjectPicker';
+import SettingsPanel from './components/SettingsPanel';
+import TemplateEditor from './components/TemplateEditor';
+import { detectStorefrontRegions, estimateRequestSize, generateStoreFrontVariants, PayloadEstimate } from './services/geminiService';
+import {
+  batchPromptOptions, buildBatchZip, createBatchItem, DEFAULT_BATCH_CONCURRENCY, detectBatchMask, generateBatchItem, runWithConcurrency,
+} from './services/batchService';
+import { describeGenerationSettings, isSameGenerationSettings, loadSettings, saveSettings } from './services/settingsService';
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPT_OPTIONS, findTemplate, loadCustomTemplates, saveCustomTemplates } from './services/templateService';
+import { createDefaultRegions } from './services/maskService';
+import { toGenerationError } from './services/providers';
+import { DEFAULT_PROJECT_NAME, hydrateProject, loadProject, releaseProject, saveProject, serializeProject } from './services/projectService';
+import { bundleFileName, exportProjectBundle, importProjectBundle } from './services/bundleService';
+import { formatRoute, parseRoute, resolveStep } from './services/routeService';
+import { dataUrlToFile, downloadBlob, generateId } from './utils';
+import { Store, FolderOpen, Settings, Images } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 800;
+const PAYLOAD_ESTIMATE_DELAY_MS = 400;
+const LAST_PROJECT_KEY = 'storefront-ai:last-project';
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const isGenerationFailure = (value: unknown): value is GenerationFailure =>
+  typeof value === 'object' && value !== null && 'kind' in value && 'message' in value;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.REFERENCES);
@@ -13,43 +37,515 @@ const App: React.FC = () => {
   const [targetImage, setTargetImage] = useState<File | null>(null);
   const [targetImagePreview, setTargetImagePreview] = useState<string | null>(null);
   const [maskBase64, setMaskBase64] = useState<string | null>(null);
+  const [regions, setRegions] = useState<MaskRegion[]>(() => createDefaultRegions());
   const [userPrompt, setUserPrompt] = useState<string>("");
+  const [promptOptions, setPromptOptions] = useState<PromptOptions>(DEFAULT_PROMPT_OPTIONS);
   
   const [isGenerating, setIsGenerating] = useState(false);
-  const [resultUrl, setResultUrl] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(2);
+  const [generations, setGenerations] = useState<GenerationNode[]>([]);
+  const [activeGenerationId, setActiveGenerationId] = useState<string | null>(null);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  // Set when the current target is a generated variant being refined
+  const [refineSource, setRefineSource] = useState<RefineSource | null>(null);
+  const [error, setError] = useState<GenerationFailure | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isBatchDetecting, setIsBatchDetecting] = useState(false);
+
+  const [projectId, setProjectId] = useState<string>(() => generateId());
+  const [projectName, setProjectName] = useState<string>(DEFAULT_PROJECT_NAME);
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(() => Date.now());
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [payloadEstimate, setPayloadEstimate] = useState<PayloadEstimate | null>(null);
+  // Aborts the generation in flight, if any
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  // Set while a stored project is being loaded so the resulting state changes don't trigger a save
+  const skipAutosaveRef = useRef(false);
+  // The URL is only written once the project named in it, if any, has been opened
+  const [isRouteReady, setIsRouteReady] = useState(false);
+
+  const designState = useMemo<DesignState>(() => ({
+    references,
+    targetImage,
+    targetImagePreview,
+    maskImageBase64: maskBase64,
+    regions,
+    userPrompt,
+    promptOptions,
+    isGenerating,
+    generations,
+    activeGenerationId,
+    selectedVariantId,
+    refineSource,
+    error,
+    batch: batchItems,
+  }), [references, targetImage, targetImagePreview, maskBase64, regions, userPrompt, promptOptions, isGenerating, generations, activeGenerationId, selectedVariantId, refineSource, error, batchItems]);
+
+  // Handlers bound in older renders still need to release whatever project is open now
+  const designStateRef = useRef(designState);
+  designStateRef.current = designState;
+
+  const activeGeneration = generations.find(g => g.id === activeGenerationId) || null;
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  const hasContent = references.length > 0 || !!targetImage || userPrompt.trim().length > 0 || batchItems.length > 0;
+
+  // Autosave the current project shortly after any persisted field changes
+  useEffect(() => {
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    if (!hasContent || isGenerating) return;
+
+    const timer = window.setTimeout(async () => {
+      setSaveStatus('saving');
+      try {
+        await saveProject(serializeProject(
+          { id: projectId, name: projectName, createdAt: projectCreatedAt },
+          step,
+          designState
+        ));
+        localStorage.setItem(LAST_PROJECT_KEY, projectId);
+        setSaveStatus('saved');
+      } catch (err) {
+        console.error("Failed to save project:", err);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [designState, step, projectName]);
+
+  // Keep the request size shown in the editor up to date
+  useEffect(() => {
+    setPayloadEstimate(null);
+    if (step !== AppStep.WORKSPACE || !targetImage || !maskBase64) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      estimateRequestSize(targetImage, maskBase64, regions, promptOptions.signage, references, settings.upload)
+        .then(estimate => { if (!cancelled) setPayloadEstimate(estimate); })
+        .catch(err => console.warn("Could not estimate request size", err));
+    }, PAYLOAD_ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [step, targetImage, maskBase64, regions, promptOptions.signage, references, settings.upload]);
+
+  // On startup open the project linked in the URL, or else the last one worked on
+  useEffect(() => {
+    const route = parseRoute(window.location.hash);
+    const id = route.projectId || localStorage.getItem(LAST_PROJECT_KEY);
+    (id ? openProject(id, route.step) : Promise.resolve(false))
+      .then(opened => {
+        if (!opened && route.step) setStep(resolveStep(route.step, {
+          hasReferences: false, hasTarget: false, hasMask: false, hasGeneration: false,
+        }));
+      })
+      .finally(() => setIsRouteReady(true));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Mirror the step and project into the URL. The first write replaces the
+  // entry the page was loaded with; later ones add history entries.
+  const hasWrittenRouteRef = useRef(false);
+  useEffect(() => {
+    if (!isRouteReady) return;
+    const hash = formatRoute(step, projectId);
+    if (window.location.hash !== hash) {
+      if (hasWrittenRouteRef.current) window.location.hash = hash;
+      else window.history.replaceState(null, '', hash);
+    }
+    hasWrittenRouteRef.current = true;
+  }, [isRouteReady, step, projectId]);
+
+  // Browser back/forward and edited URLs. A step whose prerequisites are
+  // missing is replaced rather than added, so Back doesn't bounce into it again.
+  useEffect(() => {
+    if (!isRouteReady) return;
+    const handleHashChange = async () => {
+      const route = parseRoute(window.location.hash);
+      if (route.projectId && route.projectId !== projectId) {
+        if (!(await openProject(route.projectId, route.step))) {
+          window.history.replaceState(null, '', formatRoute(step, projectId));
+        }
+        return;
+      }
+      const next = resolveStep(route.step ?? step, {
+        hasReferences: references.length > 0,
+        hasTarget: !!targetImage,
+        hasMask: !!maskBase64,
+        hasGeneration: activeGenerationId !== null,
+      });
+      if (next !== route.step || !route.projectId) window.history.replaceState(null, '', formatRoute(next, projectId));
+      setStep(next);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRouteReady, step, projectId, references.length, targetImage, maskBase64, activeGenerationId]);
+
+  // Resolves to false if the project doesn't exist or couldn't be loaded.
+  // `requestedStep` comes from a link and falls back to where the project was left.
+  const openProject = async (id: string, requestedStep: AppStep | null = null): Promise<boolean> => {
+    try {
+      const record = await loadProject(id);
+      if (!record) {
+        if (localStorage.getItem(LAST_PROJECT_KEY) === id) localStorage.removeItem(LAST_PROJECT_KEY);
+        return false;
+      }
+      const state = await hydrateProject(record);
+      releaseProject(designStateRef.current);
+      skipAutosaveRef.current = true;
+      setProjectId(record.id);
+      setProjectName(record.name);
+      setProjectCreatedAt(record.createdAt);
+      setReferences(state.references);
+      setTargetImage(state.targetImage);
+      setTargetImagePreview(state.targetImagePreview);
+      setMaskBase64(state.maskImageBase64);
+      setRegions(state.regions);
+      setUserPrompt(state.userPrompt);
+      setPromptOptions(state.promptOptions);
+      setGenerations(state.generations);
+      setActiveGenerationId(state.activeGenerationId);
+      setSelectedVariantId(state.selectedVariantId);
+      setRefineSource(state.refineSource);
+      setError(null);
+      setIsGenerating(false);
+      batchAbortRef.current?.abort();
+      setBatchItems(state.batch);
+      // A project saved mid-flow, or a link, may name a step it isn't ready for
+      setStep(resolveStep(requestedStep ?? record.step, {
+        hasReferences: state.references.length > 0,
+        hasTarget: !!state.targetImage,
+        hasMask: !!state.maskImageBase64,
+        hasGeneration: state.activeGenerationId !== null,
+      }));
+      setSaveStatus('saved');
+      localStorage.setItem(LAST_PROJECT_KEY, record.id);
+      setIsPickerOpen(false);
+      return true;
+    } catch (err) {
+      console.error("Failed to open project:", err);
+      return false;
+    }
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const updateCustomTemplates = (next: PromptTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  const updateGeneration = (id: string, update: (node: GenerationNode) => GenerationNode) => {
+    setGenerations(prev => prev.map(node => node.id === id ? update(node) : node));
+  };
 
   const handleDesignGeneration = async () => {
     if (!targetImage || !maskBase64) return;
+
+    const pending: DesignVariant[] = Array.from({ length: variantCount }, () => ({
+      id: generateId(),
+      status: 'pending',
+      imageUrl: null,
+      error: null,
+      notes: null,
+      starred: false,
+    }));
+    const node: GenerationNode = {
+      id: generateId(),
+      parentId: refineSource?.generationId || null,
+      parentVariantId: refineSource?.variantId || null,
+      createdAt: Date.now(),
+      targetImage,
+      maskImageBase64: maskBase64,
+      regions,
+      prompt: userPrompt,
+      referenceIds: references.map(ref => ref.id),
+      promptOptions,
+      providerId: settings.generation.providerId,
+      model: settings.generation.model,
+      variants: pending,
+    };
+    const previousActiveId = activeGenerationId;
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     
     setStep(AppStep.RESULT);
     setIsGenerating(true);
     setError(null);
+    setGenerations(prev => [...prev, node]);
+    setActiveGenerationId(node.id);
+    setSelectedVariantId(null);
 
     try {
-      const result = await generateStoreFrontDesign(
+      const outcomes = await generateStoreFrontVariants(
         targetImage,
         maskBase64,
+        regions,
         references,
-        userPrompt
+        { userRequest: userPrompt, template: findTemplate(templates, promptOptions.templateId), options: promptOptions },
+        variantCount,
+        settings,
+        (index, outcome) => {
+          const id = pending[index].id;
+          updateGeneration(node.id, n => ({
+            ...n,
+            variants: n.variants.map(v => v.id === id ? {
+              ...v,
+              status: outcome.imageUrl ? 'done' : 'failed',
+              imageUrl: outcome.imageUrl,
+              error: outcome.error?.message || null,
+              notes: outcome.notes,
+            } : v),
+          }));
+          if (outcome.imageUrl) setSelectedVariantId(prev => prev || id);
+        },
+        controller.signal
       );
-      setResultUrl(result);
-    } catch (err: any) {
-      setError(err.message || "An unexpected error occurred during generation.");
+      // Cancelled variants are dropped rather than shown as failures
+      const cancelledIds = new Set(pending.filter((_, i) => outcomes[i].error?.kind === 'cancelled').map(v => v.id));
+      if (cancelledIds.size > 0) {
+        updateGeneration(node.id, n => ({ ...n, variants: n.variants.filter(v => !cancelledIds.has(v.id)) }));
+      }
+      if (outcomes.every(o => !o.imageUrl)) {
+        throw outcomes.find(o => o.error?.kind !== 'cancelled')?.error || outcomes[0]?.error
+          || { kind: 'unknown', message: "An unexpected error occurred during generation." };
+      }
+    } catch (err) {
+      // A run that produced nothing isn't worth keeping in the version tree
+      setGenerations(prev => prev.filter(n => n.id !== node.id));
+      setActiveGenerationId(previousActiveId);
+      const failure = isGenerationFailure(err) ? err : toGenerationError(err);
+      if (failure.kind === 'cancelled') {
+        setStep(AppStep.WORKSPACE);
+      } else {
+        setError({ kind: failure.kind, message: failure.message, modelText: failure.modelText });
+      }
     } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const toggleVariantStar = (id: string) => {
+    if (!activeGeneration) return;
+    updateGeneration(activeGeneration.id, node => ({
+      ...node,
+      variants: node.variants.map(v => v.id === id ? { ...v, starred: !v.starred } : v),
+    }));
+  };
+
+  const discardVariant = (id: string) => {
+    if (!activeGeneration) return;
+    const remaining = activeGeneration.variants.filter(v => v.id !== id);
+    updateGeneration(activeGeneration.id, node => ({ ...node, variants: remaining }));
+    if (selectedVariantId === id) {
+      setSelectedVariantId(remaining.find(v => v.status === 'done')?.id || null);
+    }
+  };
+
+  const selectGeneration = (id: string) => {
+    const node = generations.find(g => g.id === id);
+    if (!node) return;
+    setActiveGenerationId(id);
+    setSelectedVariantId((node.variants.find(v => v.starred) || node.variants.find(v => v.status === 'done'))?.id || null);
+    setError(null);
+  };
+
+  // Each preview holds a full-size photo, so the one being replaced is released
+  const replaceTargetPreview = (preview: string | null) => {
+    if (targetImagePreview) URL.revokeObjectURL(targetImagePreview);
+    setTargetImagePreview(preview);
+  };
+
+  const loadTarget = (file: File) => {
+    if (file !== targetImage) {
+      setTargetImage(file);
+      replaceTargetPreview(URL.createObjectURL(file));
+    }
+  };
+
+  // Make a generated variant the new target so a follow-up mask and prompt can be applied to it
+  const refineVariant = (variantId: string) => {
+    const variant = activeGeneration?.variants.find(v => v.id === variantId);
+    if (!activeGeneration || !variant?.imageUrl) return;
+    loadTarget(dataUrlToFile(variant.imageUrl, `refine-${variant.id}.png`));
+    setMaskBase64(null);
+    setRegions(createDefaultRegions());
+    setUserPrompt("");
+    setRefineSource({ generationId: activeGeneration.id, variantId });
+    setError(null);
+    setStep(AppStep.WORKSPACE);
+  };
+
+  // Reopen a generation's inputs in the editor; generating again creates a sibling branch
+  const branchFromGeneration = (id: string) => {
+    const node = generations.find(g => g.id === id);
+    if (!node) return;
+    loadTarget(node.targetImage);
+    setMaskBase64(node.maskImageBase64);
+    setRegions(node.regions);
+    setUserPrompt(node.prompt);
+    setPromptOptions(node.promptOptions);
+    setRefineSource(node.parentId && node.parentVariantId
+      ? { generationId: node.parentId, variantId: node.parentVariantId }
+      : null);
+    setError(null);
+    setStep(AppStep.WORKSPACE);
+  };
+
+  const updateBatchItem = (id: string, changes: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addBatchPhotos = async (files: File[]) => {
+    const added = await Promise.all(files.map(createBatchItem));
+    setBatchItems(prev => [...prev, ...added]);
+  };
+
+  const removeBatchItem = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (item) URL.revokeObjectURL(item.previewUrl);
+    setBatchItems(prev => prev.filter(i => i.id !== id));
+  };
+
+  const detectBatchItemMask = (id: string): Promise<string> => {
+    const item = batchItems.find(i => i.id === id);
+    if (!item) return Promise.reject(new Error("Photo not found."));
+    return detectBatchMask(item.file, settings);
+  };
+
+  // Detection failures are shown on the photo; it can still be masked by hand
+  const detectMissingBatchMasks = async () => {
+    setIsBatchDetecting(true);
+    try {
+      await runWithConcurrency(batchItems.filter(item => !item.mask), batchConcurrency, async item => {
+        try {
+          updateBatchItem(item.id, { mask: await detectBatchMask(item.file, settings), error: null });
+        } catch (err) {
+          const failure = toGenerationError(err);
+          updateBatchItem(item.id, { error: { kind: failure.kind, message: failure.message } });
+        }
+      });
+    } finally {
+      setIsBatchDetecting(false);
+    }
+  };
+
+  // Queues the given photos, or every masked photo without a design, and works
+  // through them a few at a time. Stopping returns unfinished photos to 'idle'.
+  const runBatch = async (ids?: string[]) => {
+    const targets = batchItems.filter(item => item.mask && (ids ? ids.includes(item.id) : item.status !== 'done'));
+    if (targets.length === 0) return;
+    const targetIds = new Set(targets.map(item => item.id));
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const prompt = {
+      userRequest: userPrompt,
+      template: findTemplate(templates, promptOptions.templateId),
+      options: batchPromptOptions(promptOptions),
+    };
+
+    setIsBatchRunning(true);
+    setBatchItems(prev => prev.map(item => targetIds.has(item.id) ? { ...item, status: 'queued', error: null } : item));
+    try {
+      await runWithConcurrency(targets, batchConcurrency, async item => {
+        updateBatchItem(item.id, { status: 'running' });
+        try {
+          const output = await generateBatchItem(item, references, prompt, settings, controller.signal);
+          updateBatchItem(item.id, { status: 'done', imageUrl: output.imageUrl, notes: output.notes, error: null });
+        } catch (err) {
+          const failure = toGenerationError(err);
+          if (failure.kind === 'cancelled') {
+            updateBatchItem(item.id, { status: 'idle' });
+          } else {
+            updateBatchItem(item.id, {
+              status: 'failed',
+              notes: failure.modelText,
+              error: { kind: failure.kind, message: failure.message, modelText: failure.modelText },
+            });
+          }
+        }
+      }, controller.signal);
+    } finally {
+      setBatchItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'idle' } : item));
+      if (batchAbortRef.current === controller) batchAbortRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  const stopBatch = () => {
+    batchAbortRef.current?.abort();
+  };
+
+  const downloadBatchZip = async () => {
+    downloadBlob(await buildBatchZip(batchItems), `${projectName.trim() || 'storefront'}-batch.zip`);
+  };
+
+  // The open project is exported from the live state, so edits not yet autosaved are included
+  const exportBundle = async (id: string) => {
+    const record = id === projectId && hasContent
+      ? serializeProject({ id: projectId, name: projectName, createdAt: projectCreatedAt }, step, designState)
+      : await loadProject(id);
+    if (!record) throw new Error("Project not found.");
+    downloadBlob(await exportProjectBundle(record, settings.generation), bundleFileName(record.name));
+  };
+
+  const importBundle = async (file: File) => {
+    const { record, generation } = await importProjectBundle(file);
+    // Generation settings apply to every project, so the bundle's only replace them if the user agrees
+    if (generation && !isSameGenerationSettings(generation, settings.generation) && window.confirm(
+      `"${record.name}" was exported with other generation settings: ${describeGenerationSettings(generation)}.\n\n` +
+      `Use them instead of your current ones (${describeGenerationSettings(settings.generation)})? This applies to all projects.`
+    )) {
+      updateSettings({ ...settings, generation });
+    }
+    await openProject(record.id);
+  };
+
   const resetApp = () => {
+    generationAbortRef.current?.abort();
+    batchAbortRef.current?.abort();
+    releaseProject(designState);
+    setProjectId(generateId());
+    setProjectName(DEFAULT_PROJECT_NAME);
+    setProjectCreatedAt(Date.now());
+    setSaveStatus('idle');
+    localStorage.removeItem(LAST_PROJECT_KEY);
     setStep(AppStep.REFERENCES);
     setReferences([]);
     setTargetImage(null);
     setTargetImagePreview(null);
     setMaskBase64(null);
+    setRegions(createDefaultRegions());
     setUserPrompt("");
-    setResultUrl(null);
+    setPromptOptions(DEFAULT_PROMPT_OPTIONS);
+    setGenerations([]);
+    setActiveGenerationId(null);
+    setSelectedVariantId(null);
+    setRefineSource(null);
     setError(null);
+    setBatchItems([]);
   };
 
   return (
@@ -62,15 +558,47 @@ const App: React.FC = () => {
                 <Store className="w-5 h-5 text-white" />
             </div>
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">StoreFront AI</h1>
+            <div className="hidden md:flex items-center gap-2 ml-4 pl-4 border-l border-slate-200">
+              <input
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                onBlur={() => { if (!projectName.trim()) setProjectName(DEFAULT_PROJECT_NAME); }}
+                className="text-sm font-medium text-slate-700 bg-transparent border border-transparent hover:border-slate-200 focus:border-indigo-500 focus:outline-none rounded px-2 py-1 w-48"
+                title="Project name"
+              />
+              <SaveIndicator status={saveStatus} />
+            </div>
           </div>
           
-          <nav className="hidden sm:flex items-center gap-8">
-            <StepIndicator current={step} step={AppStep.REFERENCES} label="1. Style" />
-            <div className="w-8 h-px bg-slate-300"></div>
-            <StepIndicator current={step} step={AppStep.WORKSPACE} label="2. Edit" />
-            <div className="w-8 h-px bg-slate-300"></div>
-            <StepIndicator current={step} step={AppStep.RESULT} label="3. Result" />
-          </nav>
+          {step === AppStep.BATCH ? (
+            <nav className="hidden sm:flex items-center gap-2 text-sm font-semibold text-indigo-600">
+              <Images className="w-4 h-4" /> Batch mode
+            </nav>
+          ) : (
+            <nav className="hidden sm:flex items-center gap-8">
+              <StepIndicator current={step} step={AppStep.REFERENCES} label="1. Style" />
+              <div className="w-8 h-px bg-slate-300"></div>
+              <StepIndicator current={step} step={AppStep.WORKSPACE} label="2. Edit" />
+              <div className="w-8 h-px bg-slate-300"></div>
+              <StepIndicator current={step} step={AppStep.RESULT} label="3. Result" />
+            </nav>
+          )}
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setIsPickerOpen(true)}
+              className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-indigo-600"
+            >
+              <FolderOpen className="w-4 h-4" /> Projects
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-1 text-slate-600 hover:text-indigo-600"
+              title="Settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -81,7 +609,31 @@ const App: React.FC = () => {
             <ReferenceStep 
               references={references} 
               setReferences={setReferences} 
+              uploadSettings={settings.upload}
               onNext={() => setStep(AppStep.WORKSPACE)} 
+              onBatch={() => setStep(AppStep.BATCH)}
+            />
+          )}
+
+          {step === AppStep.BATCH && (
+            <BatchStep
+              items={batchItems}
+              onAddPhotos={addBatchPhotos}
+              onRemove={removeBatchItem}
+              onSetMask={(id, mask) => updateBatchItem(id, { mask, error: null })}
+              onDetectMask={detectBatchItemMask}
+              onDetectMissing={detectMissingBatchMasks}
+              isDetecting={isBatchDetecting}
+              userPrompt={userPrompt}
+              setUserPrompt={setUserPrompt}
+              referenceCount={references.length}
+              concurrency={batchConcurrency}
+              setConcurrency={setBatchConcurrency}
+              isRunning={isBatchRunning}
+              onRun={runBatch}
+              onStop={stopBatch}
+              onDownloadAll={downloadBatchZip}
+              onBack={() => setStep(AppStep.REFERENCES)}
             />
           )}
 
@@ -89,10 +641,29 @@ const App: React.FC = () => {
             <DesignStep 
               targetImage={targetImage}
               targetImagePreview={targetImagePreview}
-              setTargetImage={(f, p) => { setTargetImage(f); setTargetImagePreview(p); }}
+              setTargetImage={(f, p) => {
+                setTargetImage(f);
+                replaceTargetPreview(p);
+                setMaskBase64(null);
+                setRegions(prev => prev.map(region => ({ ...region, mask: null })));
+                setRefineSource(null);
+              }}
+              isRefining={!!refineSource}
+              maskBase64={maskBase64}
               setMaskBase64={setMaskBase64}
+              regions={regions}
+              setRegions={setRegions}
+              onDetectRegions={() => detectStorefrontRegions(targetImage!, settings)}
               userPrompt={userPrompt}
               setUserPrompt={setUserPrompt}
+              templates={templates}
+              promptOptions={promptOptions}
+              setPromptOptions={setPromptOptions}
+              onEditTemplates={() => setIsTemplateEditorOpen(true)}
+              variantCount={variantCount}
+              setVariantCount={setVariantCount}
+              payloadEstimate={payloadEstimate}
+              payloadBudgetMB={settings.upload.payloadBudgetMB}
               onBack={() => setStep(AppStep.REFERENCES)}
               onNext={handleDesignGeneration}
             />
@@ -101,10 +672,23 @@ const App: React.FC = () => {
           {step === AppStep.RESULT && (
             <ResultStep 
               isLoading={isGenerating}
-              resultUrl={resultUrl}
+              generations={generations}
+              activeGeneration={activeGeneration}
+              references={references}
+              templates={templates}
+              projectName={projectName}
+              selectedVariantId={selectedVariantId}
+              onSelectGeneration={selectGeneration}
+              onRefine={refineVariant}
+              onBranch={branchFromGeneration}
+              onSelectVariant={setSelectedVariantId}
+              onToggleStar={toggleVariantStar}
+              onDiscard={discardVariant}
               error={error}
+              onCancel={cancelGeneration}
+              onOpenSettings={() => setIsSettingsOpen(true)}
               onReset={resetApp}
-              onBack={() => setStep(AppStep.WORKSPACE)}
+              onBack={() => activeGeneration && !error ? branchFromGeneration(activeGeneration.id) : setStep(AppStep.WORKSPACE)}
             />
           )}
         </div>
@@ -115,10 +699,55 @@ const App: React.FC = () => {
           &copy; {new Date().getFullYear()} StoreFront AI. Powered by Google Gemini.
         </div>
       </footer>
+
+      {isPickerOpen && (
+        <ProjectPicker
+          currentProjectId={projectId}
+          onOpen={openProject}
+          onExport={exportBundle}
+          onImport={importBundle}
+          onNew={() => { resetApp(); setIsPickerOpen(false); }}
+          onClose={() => setIsPickerOpen(false)}
+          onCurrentRenamed={(name) => { skipAutosaveRef.current = true; setProjectName(name); }}
+          onCurrentDeleted={resetApp}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          onChange={updateSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isTemplateEditorOpen && (
+        <TemplateEditor
+          templates={templates}
+          activeTemplateId={promptOptions.templateId}
+          onChangeCustom={updateCustomTemplates}
+          onUse={(id) => setPromptOptions(prev => ({ ...prev, templateId: id }))}
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
+const SaveIndicator: React.FC<{ status: SaveStatus }> = ({ status }) => {
+  if (status === 'idle') return null;
+  const labels: Record<Exclude<SaveStatus, 'idle'>, string> = {
+    saving: 'Saving...',
+    saved: 'Saved',
+    error: 'Not saved',
+  };
+  return (
+    <span className={`text-xs ${status === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+      {labels[status]}
+    </span>
+  );
+};
+
 // Helper for Header
 const StepIndicator: React.FC<{ current: AppStep; step: AppStep; label: string }> = ({ current, step, label }) => {
   const isActive = current === step;
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, Loader2, PenTool, Redo, ScanSearch, Square, Trash2, Undo, X } from 'lucide-react';
+import { Button, Card, Label } from './ui';
+import { buildRegionMasks, createDefaultRegions, drawRegionOverlay } from '../services/maskService';
+import {
+  applyMaskEdit, canRedo, canUndo, createMaskHistory, drawStrokeSegment, MaskEdit, MaskHistory, recordMaskEdit, redoMaskEdit,
+  snapshotCanvas, undoMaskEdit,
+} from '../services/maskHistoryService';
+import { loadImage } from '../utils';
+
+type BatchTool = 'brush' | 'eraser' | 'rectangle';
+
+interface BatchMaskEditorProps {
+  imageUrl: string;
+  fileName: string;
+  mask: string | null;
+  // Resolves with a mask covering the detected shopfront
+  onDetect: () => Promise<string>;
+  onSave: (mask: string | null) => void;
+  onClose: () => void;
+}
+
+const TOOLS: { tool: BatchTool; label: string; icon: React.ElementType }[] = [
+  { tool: 'brush', label: 'Brush', icon: PenTool },
+  { tool: 'eraser', label: 'Eraser', icon: Eraser },
+  { tool: 'rectangle', label: 'Rectangle', icon: Square },
+];
+
+// A lighter mask editor for batch photos: one region, no zoom. Anything more
+// detailed is better done on the photo in the single-photo editor.
+const BatchMaskEditor: React.FC<BatchMaskEditorProps> = ({ imageUrl, fileName, mask, onDetect, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [regions] = useState(() => createDefaultRegions());
+  const [tool, setTool] = useState<BatchTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [history, setHistory] = useState<MaskHistory>(createMaskHistory);
+  const historyRef = useRef(history);
+  const strokeRef = useRef<Extract<MaskEdit, { type: 'stroke' }> | null>(null);
+  const [rectangle, setRectangle] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const color = regions[0].color;
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    if (mask) {
+      drawRegionOverlay(ctx, createDefaultRegions(mask))
+        .then(() => updateHistory(createMaskHistory(snapshotCanvas(canvas))))
+        .catch(err => console.warn("Could not restore the mask", err));
+    }
+  };
+
+  const getPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const updateHistory = (next: MaskHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const commitEdit = (ctx: CanvasRenderingContext2D, edit: MaskEdit) => {
+    updateHistory(recordMaskEdit(historyRef.current, edit, ctx));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    startRef.current = point;
+    if (tool === 'rectangle') return;
+    const stroke: Extract<MaskEdit, { type: 'stroke' }> = {
+      type: 'stroke',
+      points: [point],
+      width: brushSize * ctx.canvas.width / ctx.canvas.getBoundingClientRect().width,
+      color,
+      erase: tool === 'eraser',
+    };
+    strokeRef.current = stroke;
+    drawStrokeSegment(ctx, stroke, point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!start || !ctx) return;
+    const point = getPoint(e);
+    if (tool === 'rectangle') {
+      setRectangle({
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y),
+      });
+      return;
+    }
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    drawStrokeSegment(ctx, stroke, stroke.points[stroke.points.length - 1], point);
+    stroke.points.push(point);
+  };
+
+  const handlePointerUp = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    startRef.current = null;
+    if (!ctx) return;
+    if (tool === 'rectangle' && rectangle) {
+      const { x, y, width, height } = rectangle;
+      const edit: MaskEdit = {
+        type: 'shape',
+        points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+        color,
+        subtract: false,
+      };
+      applyMaskEdit(ctx, edit);
+      commitEdit(ctx, edit);
+      setRectangle(null);
+    }
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (stroke) commitEdit(ctx, stroke);
+  };
+
+  const handleUndo = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) updateHistory(undoMaskEdit(historyRef.current, ctx));
+  };
+
+  const handleRedo = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) updateHistory(redoMaskEdit(historyRef.current, ctx));
+  };
+
+  const handleClear = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const edit: MaskEdit = { type: 'clear' };
+    applyMaskEdit(ctx, edit);
+    commitEdit(ctx, edit);
+  };
+
+  const handleDetect = async () => {
+    setError(null);
+    setIsDetecting(true);
+    try {
+      const detected = await onDetect();
+      const image = await createImageBitmap(await loadImage(detected));
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      // There is only one region, so importing the detected mask replaces everything painted
+      const edit: MaskEdit = { type: 'import', regions, regionId: regions[0].id, image };
+      applyMaskEdit(ctx, edit);
+      commitEdit(ctx, edit);
+    } catch (err: any) {
+      setError(err.message || "Could not detect the shopfront.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!canvasRef.current) return;
+    const built = buildRegionMasks(canvasRef.current, regions);
+    if (!built) return;
+    onSave(built.regions[0].mask ? built.union : null);
+  };
+
+  // Rectangle preview in percentages so it scales with the displayed photo
+  const canvas = canvasRef.current;
+  const rectStyle = rectangle && canvas ? {
+    left: `${rectangle.x / canvas.width * 100}%`,
+    top: `${rectangle.y / canvas.height * 100}%`,
+    width: `${rectangle.width / canvas.width * 100}%`,
+    height: `${rectangle.height / canvas.height * 100}%`,
+  } : null;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) handleRedo();
+        else handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <Card className="w-full max-w-4xl">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <div>
+              <h2 className="text-lg font-bold text-slate-900">Mask for {fileName}</h2>
+              <p className="text-xs text-slate-500">Paint the area to renovate, or let the model find the shopfront.</p>
+            </div>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-slate-100">
+            <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+              {TOOLS.map(({ tool: t, label, icon: Icon }) => (
+                <button
+                  key={t}
+                  onClick={() => setTool(t)}
+                  className={`px-2.5 py-1.5 ${tool === t ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                  title={label}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+            <div className={`flex items-center gap-2 ${tool === 'rectangle' ? 'opacity-40 pointer-events-none' : ''}`}>
+              <Label className="mb-0 text-xs">Brush Size</Label>
+              <input
+                type="range"
+                min="10"
+                max="100"
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="w-24 accent-indigo-600"
+              />
+            </div>
+            <Button variant="outline" onClick={handleUndo} disabled={!canUndo(history)} className="px-3 py-1 text-sm flex items-center gap-2" title="Undo (Ctrl+Z)">
+              <Undo className="w-3 h-3" /> Undo
+            </Button>
+            <Button variant="outline" onClick={handleRedo} disabled={!canRedo(history)} className="px-3 py-1 text-sm flex items-center gap-2" title="Redo (Ctrl+Shift+Z)">
+              <Redo className="w-3 h-3" /> Redo
+            </Button>
+            <Button variant="outline" onClick={handleClear} className="px-3 py-1 text-sm flex items-center gap-2 text-red-600 hover:text-red-700">
+              <Trash2 className="w-3 h-3" /> Clear
+            </Button>
+            <Button variant="outline" onClick={handleDetect} disabled={isDetecting} className="px-3 py-1 text-sm flex items-center gap-2">
+              {isDetecting ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanSearch className="w-3 h-3" />}
+              {isDetecting ? 'Detecting...' : 'Auto-detect shopfront'}
+            </Button>
+          </div>
+          {error && <p className="px-4 pt-3 text-xs text-red-600">{error}</p>}
+
+          <div className="p-4 flex justify-center bg-slate-50">
+            <div
+              className="relative inline-block select-none touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img
+                src={imageUrl}
+                alt={fileName}
+                onLoad={handleImageLoad}
+                className="block max-w-full max-h-[60vh] pointer-events-none"
+                draggable={false}
+              />
+              <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none opacity-50" />
+              {rectStyle && (
+                <div className="absolute border-2 border-dashed border-white pointer-events-none" style={{ ...rectStyle, backgroundColor: `${color}40` }} />
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-200">
+            <Button variant="outline" onClick={onClose} className="px-3 py-1 text-sm">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="px-3 py-1 text-sm">
+              Save mask
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default BatchMaskEditor;
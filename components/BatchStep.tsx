@@ -0,0 +1,300 @@
+import React, { useRef, useState } from 'react';
+import {
+  AlertCircle, CheckCircle2, Download, FileArchive, ImagePlus, Loader2, PenTool, RotateCcw, ScanSearch, Square, Trash2,
+} from 'lucide-react';
+import { Button, Card, Label, TextArea } from './ui';
+import BatchMaskEditor from './BatchMaskEditor';
+import { BatchItem, BatchItemStatus } from '../types';
+import { BATCH_CONCURRENCY_OPTIONS, MAX_BATCH_PHOTOS } from '../services/batchService';
+import { downloadUrl } from '../utils';
+
+interface BatchStepProps {
+  items: BatchItem[];
+  onAddPhotos: (files: File[]) => Promise<void>;
+  onRemove: (id: string) => void;
+  onSetMask: (id: string, mask: string | null) => void;
+  onDetectMask: (id: string) => Promise<string>;
+  // Detects masks for every photo that doesn't have one yet
+  onDetectMissing: () => void;
+  isDetecting: boolean;
+  userPrompt: string;
+  setUserPrompt: (prompt: string) => void;
+  referenceCount: number;
+  concurrency: number;
+  setConcurrency: (concurrency: number) => void;
+  isRunning: boolean;
+  // Generates the given photos, or every photo that has a mask but no design yet
+  onRun: (ids?: string[]) => void;
+  onStop: () => void;
+  onDownloadAll: () => Promise<void>;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  idle: 'Not started',
+  queued: 'Queued',
+  running: 'Generating...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  idle: 'bg-slate-100 text-slate-600',
+  queued: 'bg-amber-50 text-amber-700',
+  running: 'bg-indigo-50 text-indigo-700',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const BatchStep: React.FC<BatchStepProps> = ({
+  items,
+  onAddPhotos,
+  onRemove,
+  onSetMask,
+  onDetectMask,
+  onDetectMissing,
+  isDetecting,
+  userPrompt,
+  setUserPrompt,
+  referenceCount,
+  concurrency,
+  setConcurrency,
+  isRunning,
+  onRun,
+  onStop,
+  onDownloadAll,
+  onBack,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editingItem = items.find(item => item.id === editingId) || null;
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { idle: 0, queued: 0, running: 0, done: 0, failed: 0 } as Record<BatchItemStatus, number>);
+  const unmasked = items.filter(item => !item.mask).length;
+  const ready = items.filter(item => item.mask && item.status !== 'done').length;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    const room = MAX_BATCH_PHOTOS - items.length;
+    if (files.length > room) {
+      setError(`A batch holds up to ${MAX_BATCH_PHOTOS} photos. Only the first ${Math.max(0, room)} were added.`);
+    }
+    setIsAdding(true);
+    try {
+      await onAddPhotos(files.slice(0, Math.max(0, room)));
+    } catch (err: any) {
+      setError(err.message || "Could not add the photos.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setError(null);
+    setIsZipping(true);
+    try {
+      await onDownloadAll();
+    } catch (err: any) {
+      setError(err.message || "Could not build the download.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const downloadItem = (item: BatchItem, index: number) => {
+    if (!item.imageUrl) return;
+    downloadUrl(item.imageUrl, `storefront-batch-${index + 1}.png`);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold text-slate-900">Batch: One Design, Many Locations</h2>
+        <p className="text-slate-600">
+          Every photo uses the same {referenceCount} reference{referenceCount === 1 ? '' : 's'} and instructions, with its own mask.
+        </p>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        <div>
+          <Label htmlFor="batch-prompt" className="mb-0">Design Instructions</Label>
+          <p className="text-xs text-slate-500">
+            Shared by every photo. The template, shop name, constraints and pinned colors come from the project; sign placement is per photo and isn't used here.
+          </p>
+        </div>
+        <TextArea
+          id="batch-prompt"
+          value={userPrompt}
+          onChange={(e) => setUserPrompt(e.target.value)}
+          rows={3}
+          placeholder="Roll out the new brand facade: dark green cladding, brass lettering, warm window lighting..."
+        />
+      </Card>
+
+      <div className="flex flex-wrap items-center gap-3 bg-white p-3 rounded-lg shadow-sm border border-slate-200">
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isAdding || items.length >= MAX_BATCH_PHOTOS}
+          className="px-3 py-1 text-sm flex items-center gap-2"
+        >
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />} Add photos
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onDetectMissing}
+          disabled={isDetecting || unmasked === 0}
+          className="px-3 py-1 text-sm flex items-center gap-2"
+          title="Let the model outline the shopfront on every photo without a mask"
+        >
+          {isDetecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+          Auto-mask {unmasked > 0 ? `${unmasked} photo${unmasked === 1 ? '' : 's'}` : 'photos'}
+        </Button>
+        <div className="h-6 w-px bg-slate-200"></div>
+        <Label htmlFor="batch-concurrency" className="mb-0 text-xs">At a time</Label>
+        <select
+          id="batch-concurrency"
+          value={concurrency}
+          onChange={(e) => setConcurrency(Number(e.target.value))}
+          disabled={isRunning}
+          className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {BATCH_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+        {isRunning ? (
+          <Button variant="danger" onClick={onStop} className="px-3 py-1 text-sm flex items-center gap-2">
+            <Square className="w-4 h-4" /> Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={() => onRun()}
+            disabled={ready === 0 || (!userPrompt.trim() && referenceCount === 0)}
+            className="px-3 py-1 text-sm"
+          >
+            Generate {ready > 0 ? ready : ''} design{ready === 1 ? '' : 's'}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={handleDownloadAll}
+          disabled={counts.done === 0 || isZipping}
+          className="px-3 py-1 text-sm flex items-center gap-2 ml-auto"
+        >
+          {isZipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileArchive className="w-4 h-4" />} Download all (.zip)
+        </Button>
+        {items.length > 0 && (
+          <p className="basis-full text-xs text-slate-500">
+            {items.length} photo{items.length === 1 ? '' : 's'} · {counts.done} done · {counts.running + counts.queued} in progress · {counts.failed} failed
+            {unmasked > 0 && ` · ${unmasked} without a mask`}
+          </p>
+        )}
+        {error && <p className="basis-full text-xs text-red-600">{error}</p>}
+      </div>
+
+      {items.length === 0 ? (
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="border-2 border-dashed border-slate-300 rounded-xl h-64 flex flex-col items-center justify-center cursor-pointer hover:border-indigo-500 hover:bg-indigo-50 transition-all bg-white"
+        >
+          <div className="bg-indigo-100 p-3 rounded-full mb-4">
+            <ImagePlus className="w-6 h-6 text-indigo-600" />
+          </div>
+          <p className="text-indigo-900 font-medium">Upload storefront photos</p>
+          <p className="text-xs text-slate-500">Up to {MAX_BATCH_PHOTOS} locations</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {items.map((item, index) => (
+            <Card key={item.id} className="flex flex-col">
+              <div className="relative aspect-[4/3] bg-slate-100">
+                <img src={item.imageUrl || item.previewUrl} alt={item.file.name} className="w-full h-full object-cover" />
+                {item.mask && !item.imageUrl && (
+                  <img src={item.mask} alt="" className="absolute inset-0 w-full h-full object-cover mix-blend-screen opacity-40 pointer-events-none" />
+                )}
+                <span className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+                  {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {item.status === 'done' && <CheckCircle2 className="w-3 h-3" />}
+                  {item.status === 'failed' && <AlertCircle className="w-3 h-3" />}
+                  {STATUS_LABELS[item.status]}
+                </span>
+              </div>
+              <div className="p-3 flex-1 flex flex-col gap-2">
+                <p className="text-xs font-medium text-slate-700 truncate" title={item.file.name}>{index + 1}. {item.file.name}</p>
+                {!item.mask && <p className="text-xs text-amber-600">No mask yet</p>}
+                {item.error && <p className="text-xs text-red-600 line-clamp-3" title={item.error.message}>{item.error.message}</p>}
+                <div className="mt-auto flex items-center gap-1">
+                  <button
+                    onClick={() => setEditingId(item.id)}
+                    disabled={item.status === 'running' || item.status === 'queued'}
+                    className="p-1.5 text-slate-500 hover:text-indigo-600 disabled:opacity-30"
+                    title="Edit mask"
+                  >
+                    <PenTool className="w-4 h-4" />
+                  </button>
+                  {item.status === 'failed' && (
+                    <button onClick={() => onRun([item.id])} disabled={isRunning} className="p-1.5 text-slate-500 hover:text-indigo-600 disabled:opacity-30" title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {item.status === 'done' && (
+                    <>
+                      <button onClick={() => onRun([item.id])} disabled={isRunning} className="p-1.5 text-slate-500 hover:text-indigo-600 disabled:opacity-30" title="Generate again">
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => downloadItem(item, index)} className="p-1.5 text-slate-500 hover:text-indigo-600" title="Download design">
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => onRemove(item.id)}
+                    disabled={item.status === 'running'}
+                    className="ml-auto p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                    title="Remove photo"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-start">
+        <Button variant="outline" onClick={onBack}>
+          Back to References
+        </Button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={handleUpload}
+      />
+
+      {editingItem && (
+        <BatchMaskEditor
+          imageUrl={editingItem.previewUrl}
+          fileName={editingItem.file.name}
+          mask={editingItem.mask}
+          onDetect={() => onDetectMask(editingItem.id)}
+          onSave={(mask) => { onSetMask(editingItem.id, mask); setEditingId(null); }}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BatchStep;
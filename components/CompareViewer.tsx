@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+
+export type CompareMode = 'result' | 'split' | 'side-by-side' | 'blink';
+
+interface CompareViewerProps {
+  originalUrl: string | null;
+  resultUrl: string;
+  maskUrl: string | null;
+  mode: CompareMode;
+  showMaskOutline: boolean;
+}
+
+const BLINK_INTERVAL_MS = 700;
+
+// Both images sit in a box with the original's aspect ratio. The model returns the
+// nearest ratio it supports, so the result is centre-cropped to fill the box, the
+// same way compositeDesign lines it up with the photo.
+const CompareViewer: React.FC<CompareViewerProps> = ({ originalUrl, resultUrl, maskUrl, mode, showMaskOutline }) => {
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [splitPosition, setSplitPosition] = useState(50);
+  const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+  const [blinkShowsOriginal, setBlinkShowsOriginal] = useState(false);
+  const [isBlinking, setIsBlinking] = useState(true);
+  const [outlineUrl, setOutlineUrl] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const source = originalUrl || resultUrl;
+    const img = new Image();
+    img.onload = () => setAspectRatio(img.naturalWidth / img.naturalHeight);
+    img.src = source;
+  }, [originalUrl, resultUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!maskUrl || !showMaskOutline) {
+      setOutlineUrl(null);
+      return;
+    }
+    traceMaskOutline(maskUrl).then(url => {
+      if (!cancelled) setOutlineUrl(url);
+    });
+    return () => { cancelled = true; };
+  }, [maskUrl, showMaskOutline]);
+
+  useEffect(() => {
+    if (mode !== 'blink' || !isBlinking) return;
+    const timer = window.setInterval(() => setBlinkShowsOriginal(prev => !prev), BLINK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [mode, isBlinking]);
+
+  const updateSplit = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const position = ((clientX - rect.left) / rect.width) * 100;
+    setSplitPosition(Math.min(100, Math.max(0, position)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'split') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDraggingSplit(true);
+    updateSplit(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isDraggingSplit) updateSplit(e.clientX);
+  };
+
+  const handlePointerUp = () => setIsDraggingSplit(false);
+
+  const frameStyle: React.CSSProperties = aspectRatio ? { aspectRatio: String(aspectRatio) } : { minHeight: '300px' };
+  const layerClass = "absolute inset-0 w-full h-full object-fill select-none pointer-events-none";
+  const resultLayerClass = "absolute inset-0 w-full h-full object-cover select-none pointer-events-none";
+
+  const outline = outlineUrl && <img src={outlineUrl} alt="" className={layerClass} />;
+
+  const renderFrame = (content: React.ReactNode, label?: string, props: React.HTMLAttributes<HTMLDivElement> = {}) => (
+    <div className="relative w-full rounded-lg overflow-hidden bg-slate-800" style={frameStyle} {...props}>
+      {content}
+      {outline}
+      {label && (
+        <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{label}</span>
+      )}
+    </div>
+  );
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {renderFrame(originalUrl && <img src={originalUrl} alt="Original" className={layerClass} />, 'Before')}
+        {renderFrame(<img src={resultUrl} alt="Generated Design" className={resultLayerClass} />, 'After')}
+      </div>
+    );
+  }
+
+  if (mode === 'blink') {
+    const showOriginal = blinkShowsOriginal && !!originalUrl;
+    return (
+      <div className="space-y-2">
+        {renderFrame(
+          <>
+            <img src={resultUrl} alt="Generated Design" className={resultLayerClass} />
+            {originalUrl && (
+              <img src={originalUrl} alt="Original" className={`${layerClass} ${showOriginal ? 'opacity-100' : 'opacity-0'}`} />
+            )}
+          </>,
+          showOriginal ? 'Before' : 'After',
+          { onClick: () => setBlinkShowsOriginal(prev => !prev), className: 'relative w-full rounded-lg overflow-hidden bg-slate-800 cursor-pointer' }
+        )}
+        <div className="flex justify-center">
+          <button
+            onClick={() => setIsBlinking(prev => !prev)}
+            className="flex items-center gap-1 text-xs text-slate-300 hover:text-white"
+          >
+            {isBlinking ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {isBlinking ? 'Pause blinking (click the image to toggle)' : 'Resume blinking'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'split') {
+    return (
+      <div
+        ref={frameRef}
+        className="relative w-full rounded-lg overflow-hidden bg-slate-800 cursor-ew-resize touch-none"
+        style={frameStyle}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {originalUrl && <img src={originalUrl} alt="Original" className={layerClass} />}
+        <img
+          src={resultUrl}
+          alt="Generated Design"
+          className={resultLayerClass}
+          style={{ clipPath: `inset(0 0 0 ${splitPosition}%)` }}
+        />
+        {outline}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${splitPosition}%` }}>
+          <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-slate-600 text-xs font-bold">
+            ⇔
+          </div>
+        </div>
+        <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded pointer-events-none">Before</span>
+        <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded pointer-events-none">After</span>
+      </div>
+    );
+  }
+
+  return renderFrame(<img src={resultUrl} alt="Generated Design" className={resultLayerClass} />);
+};
+
+// Returns a transparent image with only the boundary pixels of the mask's white area drawn in
+const traceMaskOutline = (maskUrl: string): Promise<string | null> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const width = img.naturalWidth;
+      const height = img.naturalHeight;
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+
+      ctx.drawImage(img, 0, 0);
+      const source = ctx.getImageData(0, 0, width, height).data;
+      const outline = ctx.createImageData(width, height);
+      const isMasked = (x: number, y: number) =>
+        x >= 0 && y >= 0 && x < width && y < height && source[(y * width + x) * 4] > 127;
+
+      // Lines are a few pixels thick so they survive being scaled down for display
+      const thickness = Math.max(1, Math.round(Math.max(width, height) / 600));
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!isMasked(x, y)) continue;
+          if (isMasked(x - 1, y) && isMasked(x + 1, y) && isMasked(x, y - 1) && isMasked(x, y + 1)) continue;
+          for (let dy = -thickness; dy <= thickness; dy++) {
+            for (let dx = -thickness; dx <= thickness; dx++) {
+              const px = x + dx;
+              const py = y + dy;
+              if (px < 0 || py < 0 || px >= width || py >= height) continue;
+              const i = (py * width + px) * 4;
+              outline.data[i] = 34;
+              outline.data[i + 1] = 211;
+              outline.data[i + 2] = 238;
+              outline.data[i + 3] = 255;
+            }
+          }
+        }
+      }
+      ctx.putImageData(outline, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => resolve(null);
+    img.src = maskUrl;
+  });
+};
+
+export default CompareViewer;
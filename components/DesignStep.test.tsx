@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import DesignStep from './DesignStep';
+import { MaskRegion, PromptOptions } from '../types';
+import { DetectedRegion } from '../services/providers';
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPT_OPTIONS } from '../services/templateService';
+import { PHOTO_WIDTH, stubBrowserApis } from '../testUtils';
+
+vi.mock('../services/paletteService', () => ({
+  extractPalette: vi.fn(async () => []),
+}));
+
+const SAVED_MASK = 'data:image/png;base64,U0FWRUQ=';
+
+const region = (id: string, name: string, color: string, mask: string | null): MaskRegion => ({
+  id, name, color, instructions: '', mask,
+});
+
+// Holds the state App would, so region changes flow back into the editor
+const Editor: React.FC<{
+  initialRegions: MaskRegion[];
+  onDetectRegions?: () => Promise<DetectedRegion[]>;
+  preview?: string;
+}> = ({
+  initialRegions,
+  onDetectRegions = async () => [],
+  preview = 'blob:test/photo',
+}) => {
+  const [regions, setRegions] = useState(initialRegions);
+  const [mask, setMask] = useState<string | null>(null);
+  const [promptOptions, setPromptOptions] = useState<PromptOptions>(DEFAULT_PROMPT_OPTIONS);
+  return (
+    <DesignStep
+      targetImage={new File(['shop'], 'shop.jpg', { type: 'image/jpeg' })}
+      targetImagePreview={preview}
+      setTargetImage={() => {}}
+      maskBase64={mask}
+      setMaskBase64={setMask}
+      regions={regions}
+      setRegions={setRegions}
+      onDetectRegions={onDetectRegions}
+      userPrompt=""
+      setUserPrompt={() => {}}
+      templates={BUILT_IN_TEMPLATES}
+      promptOptions={promptOptions}
+      setPromptOptions={setPromptOptions}
+      onEditTemplates={() => {}}
+      variantCount={1}
+      setVariantCount={() => {}}
+      payloadEstimate={null}
+      payloadBudgetMB={15}
+      onNext={() => {}}
+      onBack={() => {}}
+    />
+  );
+};
+
+const regionNames = () => screen.getAllByPlaceholderText<HTMLInputElement>('Region name').map(input => input.value);
+
+const waitForCanvas = () => waitFor(() => {
+  expect(document.querySelector<HTMLCanvasElement>('canvas.cursor-crosshair')?.width).toBe(PHOTO_WIDTH);
+});
+
+describe('DesignStep undo', () => {
+  beforeEach(() => {
+    stubBrowserApis();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  it('brings a deleted region back with its pixels, and redo removes it again', async () => {
+    const user = userEvent.setup();
+    render(<Editor initialRegions={[
+      region('a', 'Renovation area', '#EF4444', SAVED_MASK),
+      region('b', 'Signage', '#3B82F6', SAVED_MASK),
+    ]} />);
+    await waitForCanvas();
+
+    await user.click(screen.getAllByTitle('Delete region')[1]);
+    expect(regionNames()).toEqual(['Renovation area']);
+
+    await user.click(screen.getByTitle('Undo (Ctrl+Z)'));
+    expect(regionNames()).toEqual(['Renovation area', 'Signage']);
+
+    await user.click(screen.getByTitle('Redo (Ctrl+Shift+Z)'));
+    expect(regionNames()).toEqual(['Renovation area']);
+  });
+
+  it('keeps renames made after the deletion when undoing it', async () => {
+    const user = userEvent.setup();
+    render(<Editor initialRegions={[
+      region('a', 'Renovation area', '#EF4444', SAVED_MASK),
+      region('b', 'Signage', '#3B82F6', SAVED_MASK),
+    ]} />);
+    await waitForCanvas();
+
+    await user.click(screen.getAllByTitle('Delete region')[1]);
+    const [name] = screen.getAllByPlaceholderText('Region name');
+    await user.clear(name);
+    await user.type(name, 'Facade');
+    await user.click(screen.getByTitle('Undo (Ctrl+Z)'));
+
+    expect(regionNames()).toEqual(['Facade', 'Signage']);
+  });
+
+  it('removes the detected regions when detection is undone', async () => {
+    const user = userEvent.setup();
+    const square = [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }];
+    render(<Editor
+      initialRegions={[region('a', 'Renovation area', '#EF4444', null)]}
+      onDetectRegions={async () => [{ element: 'signage', polygon: square }, { element: 'door', polygon: square }]}
+    />);
+    await waitForCanvas();
+
+    await user.click(screen.getByRole('button', { name: /Auto-detect shopfront/ }));
+    await waitFor(() => expect(regionNames()).toEqual(['Signage', 'Door']));
+
+    await user.click(screen.getByTitle('Undo (Ctrl+Z)'));
+    expect(regionNames()).toEqual(['Renovation area']);
+
+    await user.click(screen.getByTitle('Redo (Ctrl+Shift+Z)'));
+    expect(regionNames()).toEqual(['Signage', 'Door']);
+  });
+});
+
+describe('DesignStep auto-detect', () => {
+  beforeEach(() => {
+    stubBrowserApis();
+  });
+
+  it('drops outlines that arrive after the photo was replaced', async () => {
+    const user = userEvent.setup();
+    const square = [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }];
+    let finishDetection: (regions: DetectedRegion[]) => void = () => {};
+    const onDetectRegions = () => new Promise<DetectedRegion[]>(resolve => { finishDetection = resolve; });
+    const initialRegions = [region('a', 'Renovation area', '#EF4444', null)];
+    const { rerender } = render(<Editor initialRegions={initialRegions} onDetectRegions={onDetectRegions} />);
+    await waitForCanvas();
+
+    await user.click(screen.getByRole('button', { name: /Auto-detect shopfront/ }));
+    rerender(<Editor initialRegions={initialRegions} onDetectRegions={onDetectRegions} preview="blob:test/other" />);
+    await waitForCanvas();
+    finishDetection([{ element: 'signage', polygon: square }]);
+
+    await waitFor(() => expect(screen.getByRole('button', { name: /Auto-detect shopfront/ })).toBeEnabled());
+    expect(regionNames()).toEqual(['Renovation area']);
+  });
+});
+
+describe('DesignStep space to pan', () => {
+  beforeEach(() => {
+    stubBrowserApis();
+  });
+
+  it('leaves space to a focused button outside the editor', async () => {
+    render(<Editor initialRegions={[region('a', 'Renovation area', '#EF4444', null)]} />);
+    await waitForCanvas();
+
+    const button = screen.getByTitle('Undo (Ctrl+Z)');
+    expect(fireEvent.keyDown(button, { code: 'Space', key: ' ' })).toBe(true);
+    expect(document.querySelector('canvas.cursor-grab')).toBeNull();
+  });
+
+  it('pans when nothing interactive has focus', async () => {
+    render(<Editor initialRegions={[region('a', 'Renovation area', '#EF4444', null)]} />);
+    await waitForCanvas();
+
+    expect(fireEvent.keyDown(document.body, { code: 'Space', key: ' ' })).toBe(false);
+    expect(document.querySelector('canvas.cursor-grab')).not.toBeNull();
+  });
+});
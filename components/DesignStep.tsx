@@ -1,14 +1,90 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { Button, Card, Label, TextArea, Input } from './ui';
-import { Upload, Eraser, PenTool, Undo } from 'lucide-react';
+import {
+  Upload, Eraser, PenTool, Undo, Redo, Square, Lasso, Trash2, ZoomIn, ZoomOut, Maximize, FileText, Plus,
+  Contrast, Expand, Shrink, Feather, PaintBucket, FileUp, FileDown, ScanSearch, Loader2,
+} from 'lucide-react';
+import MaskMinimap from './MaskMinimap';
+import { MIN_VARIANTS, MAX_VARIANTS, PayloadEstimate } from '../services/geminiService';
+import { formatBytes, normalizeOrientation } from '../services/uploadService';
+import { findTemplate } from '../services/templateService';
+import { extractPalette } from '../services/paletteService';
+import {
+  buildRegionMasks, createRegion, drawRegionOverlay, MaskOperation, MAX_REGIONS, rasterizeDetections, SUGGESTED_REGION_NAMES,
+} from '../services/maskService';
+import { DetectedRegion } from '../services/providers';
+import {
+  applyMaskEdit, canRedo, canUndo, createMaskHistory, drawStrokeSegment, MaskEdit, MaskHistory, recordMaskEdit, redoMaskEdit,
+  regionListAfter, replayMaskHistory, snapshotCanvas, undoMaskEdit,
+} from '../services/maskHistoryService';
+import { drawSignageText, hasSignage } from '../services/signageService';
+import PaletteSwatches from './PaletteSwatches';
+import SignagePanel from './SignagePanel';
+import { MaskRegion, PromptOptions, PromptTemplate } from '../types';
+import { downloadUrl, loadImage } from '../utils';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Clicking within this many screen pixels of the first lasso point closes the polygon
+const LASSO_CLOSE_DISTANCE = 12;
+// Zoom is relative to the fit-to-width view, so 1 always means the whole photo is visible
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.15;
+// Focused elements that press, toggle or pick something when space is hit
+const SPACE_CONTROLS = 'button, select, summary, a[href], [role="button"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"], [role="option"], [role="menuitem"]';
+
+interface PinchState {
+  distance: number;
+  midpoint: Point;
+  zoom: number;
+  pan: Point;
+}
+
+const MASK_OPERATIONS: { operation: MaskOperation; label: string; icon: React.ElementType; hint: string }[] = [
+  { operation: 'grow', label: 'Grow', icon: Expand, hint: 'Grow the region by the amount' },
+  { operation: 'shrink', label: 'Shrink', icon: Shrink, hint: 'Shrink the region by the amount' },
+  { operation: 'feather', label: 'Feather', icon: Feather, hint: 'Soften the region edge over the amount' },
+  { operation: 'fill-holes', label: 'Fill holes', icon: PaintBucket, hint: 'Fill unpainted gaps enclosed by the region' },
+  { operation: 'invert', label: 'Invert', icon: Contrast, hint: 'Swap painted and unpainted areas of the region' },
+];
+const MAX_MASK_AMOUNT = 200;
+
+const TOOLS: { tool: MaskTool; label: string; icon: React.ElementType; hint: string }[] = [
+  { tool: 'brush', label: 'Brush', icon: PenTool, hint: 'Paint over the area to change' },
+  { tool: 'eraser', label: 'Eraser', icon: Eraser, hint: 'Paint to remove parts of the mask' },
+  { tool: 'rectangle', label: 'Rectangle', icon: Square, hint: 'Drag a box to mask it. Hold Alt to cut it out instead' },
+  { tool: 'lasso', label: 'Lasso', icon: Lasso, hint: 'Click to place corners, click the first point or press Enter to close. Alt subtracts, Esc cancels' },
+];
 
 interface DesignStepProps {
   targetImage: File | null;
   targetImagePreview: string | null;
   setTargetImage: (file: File | null, preview: string | null) => void;
+  maskBase64: string | null;
+  // True when the target is a generated design being refined rather than an uploaded photo
+  isRefining?: boolean;
   setMaskBase64: (base64: string | null) => void;
+  regions: MaskRegion[];
+  setRegions: (regions: MaskRegion[]) => void;
+  // Asks the model to outline the shopfront in the target photo
+  onDetectRegions: () => Promise<DetectedRegion[]>;
   userPrompt: string;
   setUserPrompt: (prompt: string) => void;
+  templates: PromptTemplate[];
+  promptOptions: PromptOptions;
+  setPromptOptions: (options: PromptOptions) => void;
+  onEditTemplates: () => void;
+  variantCount: number;
+  setVariantCount: (count: number) => void;
+  // Size of the request the current inputs would produce; null while it's being worked out
+  payloadEstimate: PayloadEstimate | null;
+  payloadBudgetMB: number;
   onNext: () => void;
   onBack: () => void;
 }
@@ -17,20 +93,74 @@ const DesignStep: React.FC<DesignStepProps> = ({
   targetImage,
   targetImagePreview,
   setTargetImage,
+  maskBase64,
+  isRefining = false,
   setMaskBase64,
+  regions,
+  setRegions,
+  onDetectRegions,
   userPrompt,
   setUserPrompt,
+  templates,
+  promptOptions,
+  setPromptOptions,
+  onEditTemplates,
+  variantCount,
+  setVariantCount,
+  payloadEstimate,
+  payloadBudgetMB,
   onNext,
   onBack
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Transient guides (rectangle outline, lasso path) are drawn here so they never leak into the mask
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Shows the sign text where it will go; never part of the mask
+  const signageCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Untransformed wrapper around the photo and canvases; its layout size is the zoom-1 size
+  const stageRef = useRef<HTMLDivElement>(null);
   const [brushSize, setBrushSize] = useState(30);
+  const [tool, setTool] = useState<MaskTool>('brush');
   const [isDrawing, setIsDrawing] = useState(false);
+  const shapeStartRef = useRef<Point | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const subtractRef = useRef(false);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const [targetPalette, setTargetPalette] = useState<string[] | null>(null);
+  const [maskAmount, setMaskAmount] = useState(8);
+  const [maskError, setMaskError] = useState<string | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  // While set, a drag on the photo places the sign text instead of painting
+  const [isPlacingSignage, setIsPlacingSignage] = useState(false);
+  const [showSignagePreview, setShowSignagePreview] = useState(true);
+  const [activeRegionId, setActiveRegionId] = useState(regions[0]?.id);
+  const activeRegion = regions.find(r => r.id === activeRegionId) || regions[0];
+  // Mask syncs run after a delay, by which time the regions may have been renamed
+  const regionsRef = useRef(regions);
+  regionsRef.current = regions;
+  // Detection takes a while, and the photo may be replaced before it returns
+  const previewRef = useRef(targetImagePreview);
+  previewRef.current = targetImagePreview;
+
+  // View transform for the editor stage. Coordinates are read back through
+  // getBoundingClientRect, which already includes the transform, so drawing
+  // lands on the right pixel at any zoom level.
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panStartRef = useRef<{ client: Point; pan: Point } | null>(null);
+  const pinchRef = useRef<PinchState | null>(null);
   
-  // We need to keep track of drawing history for undo
-  const [history, setHistory] = useState<ImageData[]>([]);
+  // Mask edits as replayable records for undo/redo. The ref always holds the
+  // latest history, since edits can land between renders (e.g. after detection).
+  const [maskHistory, setMaskHistory] = useState<MaskHistory>(createMaskHistory);
+  const maskHistoryRef = useRef(maskHistory);
+  // The brush or eraser stroke being drawn, recorded when the pointer lifts
+  const strokeRef = useRef<Extract<MaskEdit, { type: 'stroke' }> | null>(null);
 
   // Initialize canvas when image is loaded
   useEffect(() => {
@@ -45,6 +175,15 @@ const DesignStep: React.FC<DesignStepProps> = ({
         // We use the natural size for high quality masking processing, then scale via CSS
         canvas.width = img.naturalWidth;
         canvas.height = img.naturalHeight;
+        if (previewCanvasRef.current) {
+          previewCanvasRef.current.width = img.naturalWidth;
+          previewCanvasRef.current.height = img.naturalHeight;
+        }
+        if (signageCanvasRef.current) {
+          signageCanvasRef.current.width = img.naturalWidth;
+          signageCanvasRef.current.height = img.naturalHeight;
+          drawSignagePreview();
+        }
         
         const ctx = canvas.getContext('2d');
         if (ctx) {
@@ -53,10 +192,14 @@ const DesignStep: React.FC<DesignStepProps> = ({
           // We will send the mask as a separate image.
           // Let's assume clear canvas = no change, drawing = change.
           ctx.clearRect(0, 0, canvas.width, canvas.height);
-          
-          // Save initial blank state
-          if (history.length === 0) {
-             setHistory([ctx.getImageData(0, 0, canvas.width, canvas.height)]);
+          updateMaskHistory(createMaskHistory());
+
+          // Restore previously saved regions in their colours; undo stops at the restored mask
+          const saved = regions.some(r => r.mask) ? regions : maskBase64 ? [{ ...regions[0], mask: maskBase64 }] : [];
+          if (saved.length > 0) {
+            drawRegionOverlay(ctx, saved)
+              .then(() => updateMaskHistory(createMaskHistory(snapshotCanvas(canvas))))
+              .catch(err => console.warn("Could not restore the mask", err));
           }
         }
       };
@@ -64,12 +207,246 @@ const DesignStep: React.FC<DesignStepProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [targetImagePreview]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Splits the overlay into the union mask and per-region masks
+  const syncMasks = (): boolean => {
+    if (!canvasRef.current) return false;
+    const built = buildRegionMasks(canvasRef.current, regionsRef.current);
+    if (!built) return false;
+    setMaskBase64(built.union);
+    setRegions(built.regions);
+    return true;
+  };
+
+  // Keep the saved mask in sync while painting so autosave captures work in progress
+  const maskSyncTimer = useRef<number | null>(null);
+  const scheduleMaskSync = () => {
+    if (maskSyncTimer.current) window.clearTimeout(maskSyncTimer.current);
+    maskSyncTimer.current = window.setTimeout(() => {
+      maskSyncTimer.current = null;
+      syncMasks();
+    }, 500);
+  };
+
+  const flushMaskSync = () => {
+    if (!maskSyncTimer.current) return;
+    window.clearTimeout(maskSyncTimer.current);
+    maskSyncTimer.current = null;
+    syncMasks();
+  };
+
+  useEffect(() => {
+    return () => {
+      if (maskSyncTimer.current) window.clearTimeout(maskSyncTimer.current);
+    };
+  }, []);
+
+  const updateMaskHistory = (next: MaskHistory) => {
+    maskHistoryRef.current = next;
+    setMaskHistory(next);
+  };
+
+  // Records an edit that has already been drawn on the canvas
+  const commitMaskEdit = (ctx: CanvasRenderingContext2D, edit: MaskEdit) => {
+    updateMaskHistory(recordMaskEdit(maskHistoryRef.current, edit, ctx));
+    scheduleMaskSync();
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
+      // Rotated phone photos are made upright first so the mask lines up with what is sent
+      let file = e.target.files[0];
+      try {
+        file = await normalizeOrientation(file);
+      } catch (err) {
+        console.warn("Could not normalise photo orientation", err);
+      }
       setTargetImage(file, URL.createObjectURL(file));
-      setHistory([]); // Reset history for new image
+      resetView();
+    }
+  };
+
+  const payloadBudget = payloadBudgetMB * 1024 * 1024;
+  const isOverBudget = !!payloadEstimate && payloadEstimate.total > payloadBudget;
+
+  // Keeps at least the full viewport covered by the photo so it can't be dragged out of view
+  const clampPan = (next: Point, nextZoom: number): Point => {
+    const container = containerRef.current;
+    const stage = stageRef.current;
+    if (!container || !stage) return next;
+    return {
+      x: Math.min(0, Math.max(container.clientWidth - stage.offsetWidth * nextZoom, next.x)),
+      y: Math.min(0, Math.max(container.clientHeight - stage.offsetHeight * nextZoom, next.y)),
+    };
+  };
+
+  // Zooms while keeping the given container-relative point fixed on screen
+  const zoomAround = (nextZoom: number, anchor: Point, from = { zoom, pan }) => {
+    const clamped = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, nextZoom));
+    const ratio = clamped / from.zoom;
+    setZoom(clamped);
+    setPan(clampPan({
+      x: anchor.x - (anchor.x - from.pan.x) * ratio,
+      y: anchor.y - (anchor.y - from.pan.y) * ratio,
+    }, clamped));
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    zoomAround(zoom * factor, { x: container.clientWidth / 2, y: container.clientHeight / 2 });
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  // Centres the view on a point given as fractions of the photo (used by the minimap)
+  const centerViewOn = (fx: number, fy: number) => {
+    const container = containerRef.current;
+    const stage = stageRef.current;
+    if (!container || !stage) return;
+    setPan(clampPan({
+      x: container.clientWidth / 2 - fx * stage.offsetWidth * zoom,
+      y: container.clientHeight / 2 - fy * stage.offsetHeight * zoom,
+    }, zoom));
+  };
+
+  // Visible part of the photo as fractions of its size, for the minimap
+  const getViewportRect = () => {
+    const container = containerRef.current;
+    const stage = stageRef.current;
+    if (!container || !stage || !stage.offsetWidth || !stage.offsetHeight) return null;
+    const scaledWidth = stage.offsetWidth * zoom;
+    const scaledHeight = stage.offsetHeight * zoom;
+    return {
+      x: -pan.x / scaledWidth,
+      y: -pan.y / scaledHeight,
+      width: Math.min(1, container.clientWidth / scaledWidth),
+      height: Math.min(1, container.clientHeight / scaledHeight),
+    };
+  };
+  const viewportRect = zoom > 1 ? getViewportRect() : null;
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll at the same time
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      zoomAround(zoom * factor, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom, pan, targetImagePreview]);
+
+  // Holding space turns the pointer into a pan tool, except while typing or
+  // while a control outside the editor has focus and needs space to activate
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+    const isControl = (target: EventTarget | null) =>
+      target instanceof Element && !containerRef.current?.contains(target) && !!target.closest(SPACE_CONTROLS);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping(e.target) && !isControl(e.target)) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const getContainerPoint = (clientX: number, clientY: number): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const getPinch = (touches: React.TouchList) => {
+    const a = getContainerPoint(touches[0].clientX, touches[0].clientY);
+    const b = getContainerPoint(touches[1].clientX, touches[1].clientY);
+    return {
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    };
+  };
+
+  // A second finger means the user is navigating, so drop the stroke the first finger started
+  const abortStroke = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    shapeStartRef.current = null;
+    clearPreview();
+    // Only brush strokes draw on the mask before the pointer lifts
+    if (!strokeRef.current) return;
+    strokeRef.current = null;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) replayMaskHistory(maskHistoryRef.current, ctx);
+  };
+
+  const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
+    if ('touches' in e) {
+      if (e.touches.length >= 2) {
+        abortStroke();
+        pinchRef.current = { ...getPinch(e.touches), zoom, pan };
+        return;
+      }
+    } else if (isSpaceHeld || e.button === 1) {
+      e.preventDefault();
+      panStartRef.current = { client: { x: e.clientX, y: e.clientY }, pan };
+      setIsPanning(true);
+      return;
+    }
+    startDrawing(e);
+  };
+
+  const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
+    if ('touches' in e && pinchRef.current && e.touches.length >= 2) {
+      e.preventDefault();
+      const start = pinchRef.current;
+      const current = getPinch(e.touches);
+      // Zoom about the starting midpoint, then follow the fingers as they move
+      const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, start.zoom * current.distance / start.distance));
+      const ratio = nextZoom / start.zoom;
+      setZoom(nextZoom);
+      setPan(clampPan({
+        x: current.midpoint.x - (start.midpoint.x - start.pan.x) * ratio,
+        y: current.midpoint.y - (start.midpoint.y - start.pan.y) * ratio,
+      }, nextZoom));
+      return;
+    }
+    if (!('touches' in e) && panStartRef.current) {
+      const start = panStartRef.current;
+      setPan(clampPan({
+        x: start.pan.x + e.clientX - start.client.x,
+        y: start.pan.y + e.clientY - start.client.y,
+      }, zoom));
+      return;
     }
+    draw(e);
+  };
+
+  const handlePointerUp = (e: React.MouseEvent | React.TouchEvent) => {
+    if (pinchRef.current) {
+      if (!('touches' in e) || e.touches.length < 2) pinchRef.current = null;
+      return;
+    }
+    if (panStartRef.current) {
+      panStartRef.current = null;
+      setIsPanning(false);
+      return;
+    }
+    stopDrawing();
   };
 
   const getCoordinates = (e: React.MouseEvent | React.TouchEvent, canvas: HTMLCanvasElement) => {
@@ -92,119 +469,448 @@ const DesignStep: React.FC<DesignStepProps> = ({
     };
   };
 
+  const clearPreview = () => {
+    const preview = previewCanvasRef.current;
+    preview?.getContext('2d')?.clearRect(0, 0, preview.width, preview.height);
+  };
+
+  // Guides are stroked at a constant on-screen width regardless of the photo's resolution
+  const getPreviewContext = () => {
+    const preview = previewCanvasRef.current;
+    const ctx = preview?.getContext('2d');
+    if (!preview || !ctx) return null;
+    ctx.clearRect(0, 0, preview.width, preview.height);
+    const scale = preview.width / preview.getBoundingClientRect().width;
+    ctx.lineWidth = 2 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
+    ctx.strokeStyle = '#ffffff';
+    ctx.fillStyle = `${activeRegion.color}40`;
+    return { ctx, scale };
+  };
+
+  const fillShape = (points: Point[], subtract: boolean) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const edit: MaskEdit = { type: 'shape', points, color: activeRegion.color, subtract };
+    applyMaskEdit(ctx, edit);
+    commitMaskEdit(ctx, edit);
+  };
+
+  const drawLassoPreview = (points: Point[], cursor: Point | null) => {
+    const preview = getPreviewContext();
+    if (!preview || points.length === 0) return;
+    const { ctx, scale } = preview;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    if (cursor) ctx.lineTo(cursor.x, cursor.y);
+    if (points.length > 2) ctx.fill();
+    ctx.stroke();
+    // Mark the first point so it's clear where to click to close the shape
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, 5 * scale, 0, Math.PI * 2);
+    ctx.stroke();
+  };
+
+  const closeLasso = (points: Point[] = lassoPoints) => {
+    // Double-clicks and re-clicks leave duplicate points behind; drop them before filling
+    const unique = points.filter((p, i) => i === 0 || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) > 1);
+    if (unique.length >= 3) fillShape(unique, subtractRef.current);
+    setLassoPoints([]);
+    clearPreview();
+  };
+
+  const cancelLasso = () => {
+    setLassoPoints([]);
+    clearPreview();
+  };
+
+  const addLassoPoint = (point: Point) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (lassoPoints.length >= 3) {
+      const first = lassoPoints[0];
+      const closeDistance = LASSO_CLOSE_DISTANCE * canvas.width / canvas.getBoundingClientRect().width;
+      if (Math.hypot(point.x - first.x, point.y - first.y) <= closeDistance) {
+        closeLasso();
+        return;
+      }
+    }
+    const next = [...lassoPoints, point];
+    setLassoPoints(next);
+    drawLassoPreview(next, null);
+  };
+
+  // Enter closes and Escape cancels an in-progress lasso
+  useEffect(() => {
+    if (lassoPoints.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') closeLasso();
+      if (e.key === 'Escape') cancelLasso();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lassoPoints]);
+
+  const selectTool = (next: MaskTool) => {
+    cancelLasso();
+    setIsPlacingSignage(false);
+    setTool(next);
+  };
+
+  const drawSignagePreview = () => {
+    const canvas = signageCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const { signage } = promptOptions;
+    if (!showSignagePreview || !signage.box) return;
+    drawSignageText(ctx, signage, canvas.width, canvas.height);
+    const scale = canvas.width / (canvas.getBoundingClientRect().width || canvas.width);
+    ctx.lineWidth = 1.5 * scale;
+    ctx.setLineDash([4 * scale, 4 * scale]);
+    ctx.strokeStyle = '#ffffff';
+    ctx.strokeRect(
+      signage.box.x * canvas.width,
+      signage.box.y * canvas.height,
+      signage.box.width * canvas.width,
+      signage.box.height * canvas.height
+    );
+  };
+
+  useEffect(() => {
+    drawSignagePreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [promptOptions.signage, showSignagePreview]);
+
+  const toggleSignagePlacing = () => {
+    cancelLasso();
+    setIsPlacingSignage(!isPlacingSignage);
+  };
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     if (!canvasRef.current) return;
-    setIsDrawing(true);
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
-    
-    // Save current state before new stroke
-    setHistory(prev => [...prev.slice(-10), ctx.getImageData(0, 0, canvasRef.current!.width, canvasRef.current!.height)]);
-    
-    const { x, y } = getCoordinates(e, canvasRef.current);
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    
-    // Visual style for user
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.lineWidth = brushSize;
-    // We draw with a semi-transparent color for visual feedback
-    // But for the mask export, we'll need to process this.
-    // Actually, simple strategy: Draw opaque color. 
-    // When exporting, we create a temporary canvas where this color is white and everything else is black.
-    ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)'; 
-    ctx.globalCompositeOperation = 'source-over';
+
+    const point = getCoordinates(e, canvasRef.current);
+    lastPointRef.current = point;
+    subtractRef.current = e.altKey;
+
+    if (isPlacingSignage) {
+      shapeStartRef.current = point;
+      setIsDrawing(true);
+      return;
+    }
+
+    if (tool === 'lasso') {
+      addLassoPoint(point);
+      return;
+    }
+
+    setIsDrawing(true);
+
+    if (tool === 'rectangle') {
+      shapeStartRef.current = point;
+      return;
+    }
+
+    // Regions are painted in their opaque colour; the canvas itself is shown at half opacity.
+    // On export each painted pixel is assigned to the region with the nearest colour.
+    // The eraser removes overlay pixels outright, so erased areas export as unmasked.
+    const stroke: Extract<MaskEdit, { type: 'stroke' }> = {
+      type: 'stroke',
+      points: [point],
+      width: brushSize,
+      color: activeRegion.color,
+      erase: tool === 'eraser',
+    };
+    strokeRef.current = stroke;
+    // Draw a dot so a single click still marks something
+    drawStrokeSegment(ctx, stroke, point, point);
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !canvasRef.current) return;
+    if (!canvasRef.current) return;
+    if (tool === 'lasso' && !isPlacingSignage) {
+      if (lassoPoints.length > 0 && !('touches' in e)) {
+        drawLassoPreview(lassoPoints, getCoordinates(e, canvasRef.current));
+      }
+      return;
+    }
+    if (!isDrawing) return;
     e.preventDefault(); // Prevent scrolling on touch
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
 
     const { x, y } = getCoordinates(e, canvasRef.current);
-    ctx.lineTo(x, y);
-    ctx.stroke();
+    lastPointRef.current = { x, y };
+
+    if ((tool === 'rectangle' || isPlacingSignage) && shapeStartRef.current) {
+      const preview = getPreviewContext();
+      if (!preview) return;
+      const start = shapeStartRef.current;
+      if (isPlacingSignage) preview.ctx.fillStyle = '#ffffff40';
+      preview.ctx.fillRect(start.x, start.y, x - start.x, y - start.y);
+      preview.ctx.strokeRect(start.x, start.y, x - start.x, y - start.y);
+      return;
+    }
+
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    drawStrokeSegment(ctx, stroke, stroke.points[stroke.points.length - 1], { x, y });
+    stroke.points.push({ x, y });
   };
 
   const stopDrawing = () => {
     if (!isDrawing || !canvasRef.current) return;
     setIsDrawing(false);
+
+    if (isPlacingSignage) {
+      const start = shapeStartRef.current;
+      const end = lastPointRef.current;
+      const { width, height } = canvasRef.current;
+      shapeStartRef.current = null;
+      clearPreview();
+      if (start && end && Math.abs(end.x - start.x) > 1 && Math.abs(end.y - start.y) > 1) {
+        const left = Math.max(0, Math.min(start.x, end.x));
+        const top = Math.max(0, Math.min(start.y, end.y));
+        const box = {
+          x: left / width,
+          y: top / height,
+          width: (Math.min(width, Math.max(start.x, end.x)) - left) / width,
+          height: (Math.min(height, Math.max(start.y, end.y)) - top) / height,
+        };
+        setPromptOptions({ ...promptOptions, signage: { ...promptOptions.signage, box } });
+        setShowSignagePreview(true);
+        setIsPlacingSignage(false);
+      }
+      return;
+    }
+
+    if (tool === 'rectangle') {
+      const start = shapeStartRef.current;
+      const end = lastPointRef.current;
+      shapeStartRef.current = null;
+      clearPreview();
+      if (start && end && Math.abs(end.x - start.x) > 1 && Math.abs(end.y - start.y) > 1) {
+        fillShape([start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }], subtractRef.current);
+      }
+      return;
+    }
+
     const ctx = canvasRef.current.getContext('2d');
-    if (ctx) ctx.closePath();
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (ctx && stroke) commitMaskEdit(ctx, stroke);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setTargetPalette(null);
+    if (!targetImage) return;
+    extractPalette(targetImage)
+      .catch(err => {
+        console.warn("Could not extract palette", err);
+        return [];
+      })
+      .then(palette => {
+        if (!cancelled) setTargetPalette(palette);
+      });
+    return () => { cancelled = true; };
+  }, [targetImage]);
+
+  const togglePinnedTargetColor = (hex: string) => {
+    const pinned = promptOptions.pinnedTargetColors;
+    setPromptOptions({
+      ...promptOptions,
+      pinnedTargetColors: pinned.includes(hex) ? pinned.filter(c => c !== hex) : [...pinned, hex],
+    });
+  };
+
+  // Puts back the region list a deletion or detection changed. Regions that are
+  // still there keep any renames and instructions made since.
+  const restoreRegionList = (list: MaskRegion[]) => {
+    const next = list.map(region => regionsRef.current.find(r => r.id === region.id) || region);
+    regionsRef.current = next;
+    setRegions(next);
+    if (!next.some(r => r.id === activeRegionId)) setActiveRegionId(next[0].id);
   };
 
   const handleUndo = () => {
-    if (history.length > 0 && canvasRef.current) {
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx) {
-        const previousState = history[history.length - 1];
-        ctx.putImageData(previousState, 0, 0);
-        setHistory(prev => prev.slice(0, -1));
+    const ctx = canvasRef.current?.getContext('2d');
+    const history = maskHistoryRef.current;
+    if (!ctx || isDrawing || !canUndo(history)) return;
+    const regionList = regionListAfter(history.done[history.done.length - 1], 'undo');
+    updateMaskHistory(undoMaskEdit(history, ctx));
+    if (regionList) restoreRegionList(regionList);
+    scheduleMaskSync();
+  };
+
+  const handleRedo = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const history = maskHistoryRef.current;
+    if (!ctx || isDrawing || !canRedo(history)) return;
+    const regionList = regionListAfter(history.undone[history.undone.length - 1], 'redo');
+    updateMaskHistory(redoMaskEdit(history, ctx));
+    if (regionList) restoreRegionList(regionList);
+    scheduleMaskSync();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y. Text fields keep their own undo.
+  useEffect(() => {
+    if (!targetImagePreview) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target;
+      if (target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        // An open lasso loses its last corner first
+        if (lassoPoints.length > 0) {
+          const next = lassoPoints.slice(0, -1);
+          setLassoPoints(next);
+          if (next.length > 0) drawLassoPreview(next, null);
+          else clearPreview();
+        } else {
+          handleUndo();
+        }
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [targetImagePreview, lassoPoints, isDrawing]);
+
+  const handleClear = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const edit: MaskEdit = { type: 'clear' };
+    applyMaskEdit(ctx, edit);
+    commitMaskEdit(ctx, edit);
+  };
+
+  // Mask operations act on the active region only; other regions keep their pixels
+  const runMaskOperation = (operation: MaskOperation) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    cancelLasso();
+    const edit: MaskEdit = { type: 'region-operation', regions, regionId: activeRegion.id, operation, amount: maskAmount };
+    applyMaskEdit(ctx, edit);
+    commitMaskEdit(ctx, edit);
+  };
+
+  const handleMaskImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!file || !ctx) return;
+    setMaskError(null);
+    const url = URL.createObjectURL(file);
+    try {
+      const img = await loadImage(url);
+      const { width, height } = ctx.canvas;
+      // A mask for a different photo would land in the wrong place
+      if (Math.abs(img.naturalWidth / img.naturalHeight - width / height) > 0.01) {
+        throw new Error(`The mask is ${img.naturalWidth}×${img.naturalHeight}, which doesn't match the photo's ${width}×${height} shape.`);
+      }
+      // A bitmap stays decoded after the object URL is released, so the import can be replayed
+      const edit: MaskEdit = { type: 'import', regions, regionId: activeRegion.id, image: await createImageBitmap(img) };
+      applyMaskEdit(ctx, edit);
+      commitMaskEdit(ctx, edit);
+    } catch (err: any) {
+      setMaskError(err.message || "Could not read the mask image.");
+    } finally {
+      URL.revokeObjectURL(url);
     }
   };
 
-  const handleClear = () => {
-    if (canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) {
-             setHistory(prev => [...prev.slice(-10), ctx.getImageData(0, 0, canvasRef.current!.width, canvasRef.current!.height)]);
-             ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-        }
+  const detectShopfront = async () => {
+    if (!canvasRef.current) return;
+    if (regions.some(r => r.mask) && !window.confirm("Replace the current mask with the detected shopfront?")) return;
+    cancelLasso();
+    setMaskError(null);
+    setIsDetecting(true);
+    const detectedPreview = targetImagePreview;
+    try {
+      const detections = await onDetectRegions();
+      // Outlines found in a photo that has since been replaced don't fit the new one
+      if (previewRef.current !== detectedPreview) return;
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const next = rasterizeDetections(ctx, regionsRef.current, detections);
+      commitMaskEdit(ctx, { type: 'detect', regions: regionsRef.current, detections, nextRegions: next });
+      regionsRef.current = next;
+      setRegions(next);
+      setActiveRegionId(next[0].id);
+    } catch (err: any) {
+      setMaskError(err.message || "Could not detect the shopfront.");
+    } finally {
+      setIsDetecting(false);
     }
-  }
+  };
+
+  const downloadMask = () => {
+    if (!canvasRef.current) return;
+    const built = buildRegionMasks(canvasRef.current, regionsRef.current);
+    if (!built) return;
+    downloadUrl(built.union, 'storefront-mask.png');
+  };
+
+  const addRegion = (name: string) => {
+    const region = createRegion(name, regions);
+    setRegions([...regions, region]);
+    setActiveRegionId(region.id);
+  };
+
+  const updateRegion = (id: string, changes: Partial<MaskRegion>) => {
+    setRegions(regions.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const deleteRegion = (region: MaskRegion) => {
+    if (regions.length <= 1) return;
+    if (region.mask && !window.confirm(`Delete "${region.name}" and the area painted for it?`)) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    const remaining = regions.filter(r => r.id !== region.id);
+    regionsRef.current = remaining;
+    if (ctx) {
+      const edit: MaskEdit = { type: 'erase-region', regions, regionId: region.id, nextRegions: remaining };
+      applyMaskEdit(ctx, edit);
+      commitMaskEdit(ctx, edit);
+    }
+    setRegions(remaining);
+    if (activeRegion.id === region.id) setActiveRegionId(remaining[0].id);
+    scheduleMaskSync();
+  };
 
   const prepareAndSubmit = () => {
     if (!canvasRef.current || !targetImagePreview) return;
-    
-    // Generate the binary mask
-    // 1. Create a temporary canvas
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvasRef.current.width;
-    tempCanvas.height = canvasRef.current.height;
-    const tCtx = tempCanvas.getContext('2d');
-    
-    if (!tCtx) return;
-
-    // 2. Fill background with BLACK (no change area)
-    tCtx.fillStyle = '#000000';
-    tCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
-
-    // 3. Draw the User's canvas onto this. 
-    // Since user drew with rgba(255, 0, 0, 0.5), we need to check pixels.
-    // Or simpler: We replicate the user's drawing path? No, path is lost.
-    // We scan the user canvas. Wherever alpha > 0, we paint WHITE on temp canvas.
-    const userImgData = canvasRef.current.getContext('2d')?.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
-    if (userImgData) {
-        const targetData = tCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-        const data = userImgData.data;
-        const tData = targetData.data;
-
-        for (let i = 0; i < data.length; i += 4) {
-            const alpha = data[i + 3];
-            // If the user drew here (alpha > 0)
-            if (alpha > 0) {
-                tData[i] = 255;     // R
-                tData[i + 1] = 255; // G
-                tData[i + 2] = 255; // B
-                tData[i + 3] = 255; // Alpha
-            }
-        }
-        tCtx.putImageData(targetData, 0, 0);
+    if (maskSyncTimer.current) {
+      window.clearTimeout(maskSyncTimer.current);
+      maskSyncTimer.current = null;
     }
 
-    const maskDataUrl = tempCanvas.toDataURL('image/png');
-    setMaskBase64(maskDataUrl);
+    if (!syncMasks()) return;
     onNext();
   };
 
+  const hasInstructions = !!userPrompt.trim() || regions.some(r => r.instructions.trim()) || hasSignage(promptOptions.signage);
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="text-center space-y-2">
         <h2 className="text-2xl font-bold text-slate-900">Step 2: Context & Requirements</h2>
-        <p className="text-slate-600">Upload your current shop photo. Use the brush to mark the area you want to renovate.</p>
+        <p className="text-slate-600">
+          {isRefining
+            ? 'Refining a generated design. Mark what to change next and describe the follow-up.'
+            : 'Upload your current shop photo. Use the brush to mark the area you want to renovate.'}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -224,8 +930,23 @@ const DesignStep: React.FC<DesignStepProps> = ({
                 <div className="space-y-4">
                     {/* Toolbar */}
                     <div className="flex flex-wrap items-center gap-4 bg-white p-3 rounded-lg shadow-sm border border-slate-200">
-                        <div className="flex items-center gap-2">
-                             <PenTool className="w-4 h-4 text-slate-500" />
+                        <div className="flex items-center gap-2 text-sm text-slate-700" title="Strokes are added to this region. Pick another one below.">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: activeRegion.color }} />
+                            <span className="max-w-[8rem] truncate">{activeRegion.name || 'Untitled region'}</span>
+                        </div>
+                        <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+                            {TOOLS.map(({ tool: t, label, icon: Icon }) => (
+                                <button
+                                    key={t}
+                                    onClick={() => selectTool(t)}
+                                    className={`px-2.5 py-1.5 ${tool === t ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                                    title={label}
+                                >
+                                    <Icon className="w-4 h-4" />
+                                </button>
+                            ))}
+                        </div>
+                        <div className={`flex items-center gap-2 ${tool === 'brush' || tool === 'eraser' ? '' : 'opacity-40 pointer-events-none'}`}>
                              <Label className="mb-0 text-xs">Brush Size</Label>
                              <input 
                                 type="range" 
@@ -237,15 +958,83 @@ const DesignStep: React.FC<DesignStepProps> = ({
                              />
                         </div>
                         <div className="h-6 w-px bg-slate-200 mx-2"></div>
-                        <Button variant="outline" onClick={handleUndo} className="px-3 py-1 text-sm flex items-center gap-2" title="Undo">
+                        <Button variant="outline" onClick={handleUndo} disabled={!canUndo(maskHistory)} className="px-3 py-1 text-sm flex items-center gap-2" title="Undo (Ctrl+Z)">
                             <Undo className="w-3 h-3" /> Undo
                         </Button>
+                        <Button variant="outline" onClick={handleRedo} disabled={!canRedo(maskHistory)} className="px-3 py-1 text-sm flex items-center gap-2" title="Redo (Ctrl+Shift+Z)">
+                            <Redo className="w-3 h-3" /> Redo
+                        </Button>
                         <Button variant="outline" onClick={handleClear} className="px-3 py-1 text-sm flex items-center gap-2 text-red-600 hover:text-red-700" title="Clear Mask">
-                            <Eraser className="w-3 h-3" /> Clear
+                            <Trash2 className="w-3 h-3" /> Clear
                         </Button>
+                        <div className="h-6 w-px bg-slate-200 mx-2"></div>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => zoomFromCenter(1 / WHEEL_ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} className="p-1.5 text-slate-600 hover:text-indigo-600 disabled:opacity-30" title="Zoom out">
+                                <ZoomOut className="w-4 h-4" />
+                            </button>
+                            <span className="text-xs text-slate-500 w-10 text-center">{Math.round(zoom * 100)}%</span>
+                            <button onClick={() => zoomFromCenter(WHEEL_ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} className="p-1.5 text-slate-600 hover:text-indigo-600 disabled:opacity-30" title="Zoom in">
+                                <ZoomIn className="w-4 h-4" />
+                            </button>
+                            <button onClick={resetView} className="p-1.5 text-slate-600 hover:text-indigo-600" title="Fit to screen">
+                                <Maximize className="w-4 h-4" />
+                            </button>
+                        </div>
                         <div className="flex-1 text-right text-xs text-slate-400">
-                             Paint over the area to change
+                             {isPlacingSignage ? 'Drag a box where the sign text should go' : TOOLS.find(t => t.tool === tool)?.hint}. Scroll or pinch to zoom, hold Space or use two fingers to pan.
+                        </div>
+                        <div className="basis-full flex flex-wrap items-center gap-2 pt-3 border-t border-slate-100">
+                            <Label htmlFor="mask-amount" className="mb-0 text-xs">Amount</Label>
+                            <input
+                                id="mask-amount"
+                                type="number"
+                                min={1}
+                                max={MAX_MASK_AMOUNT}
+                                value={maskAmount}
+                                onChange={(e) => setMaskAmount(Math.min(MAX_MASK_AMOUNT, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                                className="w-16 px-2 py-1 border border-slate-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <span className="text-xs text-slate-500">px</span>
+                            {MASK_OPERATIONS.map(({ operation, label, icon: Icon, hint }) => (
+                                <Button
+                                    key={operation}
+                                    variant="outline"
+                                    onClick={() => runMaskOperation(operation)}
+                                    className="px-2.5 py-1 text-xs flex items-center gap-1.5"
+                                    title={`${hint} (${activeRegion.name || 'active region'})`}
+                                >
+                                    <Icon className="w-3 h-3" /> {label}
+                                </Button>
+                            ))}
+                            <div className="h-6 w-px bg-slate-200 mx-1"></div>
+                            <Button
+                                variant="outline"
+                                onClick={detectShopfront}
+                                disabled={isDetecting}
+                                className="px-2.5 py-1 text-xs flex items-center gap-1.5"
+                                title="Let the model outline the facade, signage, windows and door as editable regions"
+                            >
+                                {isDetecting ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanSearch className="w-3 h-3" />}
+                                {isDetecting ? 'Detecting...' : 'Auto-detect shopfront'}
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => maskInputRef.current?.click()}
+                                className="px-2.5 py-1 text-xs flex items-center gap-1.5"
+                                title="Load a black and white mask PNG into the active region. White is changed, black is kept."
+                            >
+                                <FileUp className="w-3 h-3" /> Import mask
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={downloadMask}
+                                className="px-2.5 py-1 text-xs flex items-center gap-1.5"
+                                title="Download the combined mask of all regions at full resolution"
+                            >
+                                <FileDown className="w-3 h-3" /> Download mask
+                            </Button>
                         </div>
+                        {maskError && <p className="basis-full text-xs text-red-600">{maskError}</p>}
                     </div>
 
                     {/* Editor */}
@@ -254,29 +1043,129 @@ const DesignStep: React.FC<DesignStepProps> = ({
                         className="relative w-full rounded-xl overflow-hidden border border-slate-200 bg-slate-900 shadow-inner group"
                         style={{ minHeight: '400px' }}
                     >
-                        <img 
-                            src={targetImagePreview} 
-                            alt="Target" 
-                            className="w-full h-auto block select-none pointer-events-none" 
-                        />
-                        <canvas 
-                            ref={canvasRef}
-                            onMouseDown={startDrawing}
-                            onMouseMove={draw}
-                            onMouseUp={stopDrawing}
-                            onMouseLeave={stopDrawing}
-                            onTouchStart={startDrawing}
-                            onTouchMove={draw}
-                            onTouchEnd={stopDrawing}
-                            className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
-                        />
-                        {/* Overlay helper text if canvas is empty? Maybe distracting. */}
+                        <div
+                            ref={stageRef}
+                            className="relative w-full"
+                            style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: '0 0' }}
+                        >
+                            <img 
+                                src={targetImagePreview} 
+                                alt="Target" 
+                                className="w-full h-auto block select-none pointer-events-none" 
+                            />
+                            <canvas 
+                                ref={canvasRef}
+                                className="absolute top-0 left-0 w-full h-full pointer-events-none opacity-50"
+                            />
+                            <canvas
+                                ref={signageCanvasRef}
+                                className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                            />
+                            <canvas 
+                                ref={previewCanvasRef}
+                                onMouseDown={handlePointerDown}
+                                onMouseMove={handlePointerMove}
+                                onMouseUp={handlePointerUp}
+                                onMouseLeave={handlePointerUp}
+                                onDoubleClick={() => tool === 'lasso' && closeLasso()}
+                                onTouchStart={handlePointerDown}
+                                onTouchMove={handlePointerMove}
+                                onTouchEnd={handlePointerUp}
+                                className={`absolute top-0 left-0 w-full h-full touch-none ${
+                                    isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : isPlacingSignage ? 'cursor-cell' : 'cursor-crosshair'
+                                }`}
+                            />
+                        </div>
+                        {viewportRect && (
+                            <MaskMinimap
+                                imageUrl={targetImagePreview}
+                                viewport={viewportRect}
+                                onNavigate={centerViewOn}
+                            />
+                        )}
                     </div>
                     <div className="text-center">
                         <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="text-sm">
                             Change Photo
                         </Button>
                     </div>
+                    <Card className="p-4 space-y-3">
+                        <div>
+                            <Label className="mb-0">Regions</Label>
+                            <p className="text-xs text-slate-500">Paint each part in its own region and say what should happen there. Click a region to paint into it.</p>
+                        </div>
+                        {regions.map(region => (
+                            <div
+                                key={region.id}
+                                onClick={() => setActiveRegionId(region.id)}
+                                className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${
+                                    region.id === activeRegion.id ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                                }`}
+                            >
+                                <span className="mt-2 w-4 h-4 flex-shrink-0 rounded-full" style={{ backgroundColor: region.color }} />
+                                <div className="flex-1 space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            value={region.name}
+                                            onChange={(e) => updateRegion(region.id, { name: e.target.value })}
+                                            placeholder="Region name"
+                                        />
+                                        {!region.mask && <span className="text-xs text-slate-400 whitespace-nowrap">Not painted</span>}
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); deleteRegion(region); }}
+                                            disabled={regions.length <= 1}
+                                            className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                                            title="Delete region"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <TextArea
+                                        value={region.instructions}
+                                        onChange={(e) => updateRegion(region.id, { instructions: e.target.value })}
+                                        rows={2}
+                                        placeholder={`What should change in the ${region.name.toLowerCase() || 'region'}?`}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                        {regions.length < MAX_REGIONS && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-xs text-slate-500">Add region:</span>
+                                {SUGGESTED_REGION_NAMES.filter(name => !regions.some(r => r.name === name)).map(name => (
+                                    <button
+                                        key={name}
+                                        onClick={() => addRegion(name)}
+                                        className="px-2 py-1 rounded-full bg-slate-100 text-xs text-slate-700 hover:bg-indigo-50 hover:text-indigo-700"
+                                    >
+                                        {name}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => addRegion(`Region ${regions.length + 1}`)}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 text-xs text-slate-700 hover:bg-indigo-50 hover:text-indigo-700"
+                                >
+                                    <Plus className="w-3 h-3" /> Custom
+                                </button>
+                            </div>
+                        )}
+                    </Card>
+                    <SignagePanel
+                        signage={promptOptions.signage}
+                        onChange={(signage) => setPromptOptions({ ...promptOptions, signage })}
+                        isPlacing={isPlacingSignage}
+                        onTogglePlacing={toggleSignagePlacing}
+                        showPreview={showSignagePreview}
+                        onTogglePreview={() => setShowSignagePreview(!showSignagePreview)}
+                    />
+                    <Card className="p-4">
+                        <Label>Colors in this photo <span className="font-normal text-slate-400">(pin the ones the design must keep)</span></Label>
+                        <PaletteSwatches
+                            colors={targetPalette}
+                            pinned={promptOptions.pinnedTargetColors}
+                            onTogglePin={togglePinnedTargetColor}
+                        />
+                    </Card>
                 </div>
             )}
             <input 
@@ -286,12 +1175,56 @@ const DesignStep: React.FC<DesignStepProps> = ({
                 className="hidden" 
                 onChange={handleFileUpload} 
             />
+            <input
+                ref={maskInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                className="hidden"
+                onChange={handleMaskImport}
+            />
         </div>
 
         {/* Right Column: Prompt Inputs */}
         <div className="space-y-6">
             <Card className="p-6 h-full flex flex-col">
                 <div className="flex-1 space-y-4">
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <Label htmlFor="prompt-template" className="mb-0">Prompt Template</Label>
+                            <button
+                                onClick={onEditTemplates}
+                                className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                            >
+                                <FileText className="w-3 h-3" /> Edit templates
+                            </button>
+                        </div>
+                        <select
+                            id="prompt-template"
+                            value={findTemplate(templates, promptOptions.templateId).id}
+                            onChange={(e) => setPromptOptions({ ...promptOptions, templateId: e.target.value })}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        >
+                            <optgroup label="Presets">
+                                {templates.filter(t => t.builtIn).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </optgroup>
+                            {templates.some(t => !t.builtIn) && (
+                                <optgroup label="Saved">
+                                    {templates.filter(t => !t.builtIn).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </optgroup>
+                            )}
+                        </select>
+                    </div>
+
+                    <div>
+                        <Label htmlFor="shop-name">Shop Name</Label>
+                        <Input
+                            id="shop-name"
+                            value={promptOptions.shopName}
+                            onChange={(e) => setPromptOptions({ ...promptOptions, shopName: e.target.value })}
+                            placeholder="Bean & Brew"
+                        />
+                    </div>
+
                     <div>
                         <Label htmlFor="main-prompt">Design Instructions</Label>
                         <p className="text-xs text-slate-500 mb-2">Describe the overall vibe. e.g. "Modern minimalist coffee shop with warm lighting and wooden accents."</p>
@@ -300,20 +1233,54 @@ const DesignStep: React.FC<DesignStepProps> = ({
                             value={userPrompt}
                             onChange={(e) => setUserPrompt(e.target.value)}
                             rows={8}
-                            placeholder="I want a modern facade. Change the sign to say 'Bean & Brew'. Use dark grey metal cladding..."
+                            placeholder="I want a modern facade with dark grey metal cladding and a backlit sign..."
+                        />
+                    </div>
+
+                    <div>
+                        <Label htmlFor="extra-constraints">Extra Constraints</Label>
+                        <p className="text-xs text-slate-500 mb-2">One per line. Added to the standard rules in every run of this project.</p>
+                        <TextArea
+                            id="extra-constraints"
+                            value={promptOptions.extraConstraints}
+                            onChange={(e) => setPromptOptions({ ...promptOptions, extraConstraints: e.target.value })}
+                            rows={3}
+                            placeholder="Keep the existing entrance door&#10;No neon signage"
                         />
                     </div>
                 </div>
                 
                 <div className="mt-6 pt-6 border-t border-slate-100 flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="variant-count" className="mb-0">Variants per run</Label>
+                        <select
+                            id="variant-count"
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            {Array.from({ length: MAX_VARIANTS - MIN_VARIANTS + 1 }, (_, i) => MIN_VARIANTS + i).map(n => (
+                                <option key={n} value={n}>{n}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {payloadEstimate && (
+                        <p
+                            className={`text-xs ${isOverBudget ? 'text-red-600' : 'text-slate-500'}`}
+                            title={`Photo ${formatBytes(payloadEstimate.target)} · Masks and guide ${formatBytes(payloadEstimate.mask)} · References ${formatBytes(payloadEstimate.references)}`}
+                        >
+                            Request size: {formatBytes(payloadEstimate.total)} of {formatBytes(payloadBudget)} budget
+                            {isOverBudget && '. Remove references or lower the max image size in Settings.'}
+                        </p>
+                    )}
                     <Button 
                         onClick={prepareAndSubmit} 
-                        disabled={!targetImage || !userPrompt.trim()}
+                        disabled={!targetImage || !hasInstructions || isOverBudget}
                         className="w-full py-3 text-lg shadow-lg shadow-indigo-200"
                     >
-                        Generate Design
+                        {variantCount > 1 ? `Generate ${variantCount} Designs` : 'Generate Design'}
                     </Button>
-                    <Button variant="outline" onClick={onBack} className="w-full">
+                    <Button variant="outline" onClick={() => { flushMaskSync(); onBack(); }} className="w-full">
                         Back to References
                     </Button>
                 </div>
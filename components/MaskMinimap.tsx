@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface MaskMinimapProps {
+  imageUrl: string;
+  // Visible region as fractions (0..1) of the full photo
+  viewport: { x: number; y: number; width: number; height: number };
+  onNavigate: (fx: number, fy: number) => void;
+}
+
+const MaskMinimap: React.FC<MaskMinimapProps> = ({ imageUrl, viewport, onNavigate }) => {
+  const handlePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate(
+      Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    );
+  };
+
+  return (
+    <div
+      onPointerDown={handlePointer}
+      onPointerMove={handlePointer}
+      className="absolute bottom-3 right-3 w-32 rounded-md overflow-hidden border-2 border-white shadow-lg bg-slate-900 cursor-pointer touch-none"
+      title="Click or drag to move the view"
+    >
+      <img src={imageUrl} alt="" className="w-full h-auto block opacity-80 select-none pointer-events-none" />
+      <div
+        className="absolute border-2 border-indigo-400 bg-indigo-400/20 pointer-events-none"
+        style={{
+          left: `${viewport.x * 100}%`,
+          top: `${viewport.y * 100}%`,
+          width: `${viewport.width * 100}%`,
+          height: `${viewport.height * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+export default MaskMinimap;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Pin } from 'lucide-react';
+
+interface PaletteSwatchesProps {
+  // Null while the palette is still being extracted
+  colors: string[] | null;
+  pinned: string[];
+  onTogglePin: (hex: string) => void;
+}
+
+// Pinned colours stay listed even if a new crop no longer contains them
+const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ colors, pinned, onTogglePin }) => {
+  if (!colors) {
+    return <p className="text-xs text-slate-400">Extracting colors...</p>;
+  }
+
+  const swatches = [...pinned, ...colors.filter(hex => !pinned.includes(hex))];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {swatches.map(hex => {
+        const isPinned = pinned.includes(hex);
+        return (
+          <button
+            key={hex}
+            onClick={() => onTogglePin(hex)}
+            title={isPinned ? `Unpin ${hex}` : `Pin ${hex} as an exact color for generation`}
+            className="flex flex-col items-center gap-0.5 group"
+          >
+            <span
+              className={`relative w-8 h-8 rounded-md border ${
+                isPinned ? 'border-indigo-600 ring-2 ring-indigo-300' : 'border-slate-200 group-hover:border-slate-400'
+              }`}
+              style={{ backgroundColor: hex }}
+            >
+              {isPinned && (
+                <Pin className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 p-0.5 rounded-full bg-indigo-600 text-white" />
+              )}
+            </span>
+            <span className={`font-mono text-[10px] ${isPinned ? 'text-indigo-700 font-semibold' : 'text-slate-500'}`}>{hex}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PaletteSwatches;
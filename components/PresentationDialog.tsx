@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2, X } from 'lucide-react';
+import { GenerationNode, ReferenceItem } from '../types';
+import { Button, Card, Input, Label } from './ui';
+import { exportPresentation, loadDesignerName, PresentationFormat, saveDesignerName } from '../services/presentationService';
+import { DEFAULT_PROJECT_NAME } from '../services/projectService';
+import { downloadBlob } from '../utils';
+
+const FORMAT_OPTIONS: { format: PresentationFormat; label: string; description: string }[] = [
+  { format: 'pdf', label: 'PDF', description: 'One page per slide, ready to email or print.' },
+  { format: 'html', label: 'HTML deck', description: 'A single file that opens in any browser.' },
+];
+
+interface PresentationDialogProps {
+  generation: GenerationNode;
+  references: ReferenceItem[];
+  templateName: string;
+  projectName: string;
+  onClose: () => void;
+}
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const PresentationDialog: React.FC<PresentationDialogProps> = ({ generation, references, templateName, projectName, onClose }) => {
+  const shopName = generation.promptOptions.shopName.trim();
+  const [title, setTitle] = useState(projectName.trim() && projectName !== DEFAULT_PROJECT_NAME ? projectName.trim() : 'Storefront design concept');
+  const [shop, setShop] = useState(shopName);
+  const [designer, setDesigner] = useState(loadDesignerName);
+  const [date, setDate] = useState(todayIso);
+  const [format, setFormat] = useState<PresentationFormat>('pdf');
+  const finished = generation.variants.filter(v => v.status === 'done' && v.imageUrl);
+  const starredCount = finished.filter(v => v.starred).length;
+  const [onlyStarred, setOnlyStarred] = useState(starredCount > 0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isExporting) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isExporting]);
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    saveDesignerName(designer);
+    try {
+      const blob = await exportPresentation(generation, references, templateName, {
+        format, title, shopName: shop, designer, date, onlyStarred,
+      });
+      downloadBlob(blob, `${(shop || title).trim() || 'storefront'}-presentation.${format}`);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Could not build the presentation.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const usedReferences = references.filter(ref => generation.referenceIds.includes(ref.id)).length;
+  const variantCount = onlyStarred && starredCount > 0 ? starredCount : finished.length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={() => !isExporting && onClose()}>
+      <Card className="w-full max-w-lg">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <div>
+              <h2 className="text-lg font-bold text-slate-900">Export presentation</h2>
+              <p className="text-xs text-slate-500">A client-ready deck of this design, built on your device.</p>
+            </div>
+            <button onClick={onClose} disabled={isExporting} className="p-2 text-slate-400 hover:text-slate-700 disabled:opacity-50" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            <div>
+              <Label>Title</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Shop name</Label>
+                <Input value={shop} onChange={(e) => setShop(e.target.value)} placeholder="e.g. Maison Lune" />
+              </div>
+              <div>
+                <Label>Date</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <Label>Designer</Label>
+              <Input value={designer} onChange={(e) => setDesigner(e.target.value)} placeholder="Your name or studio" />
+            </div>
+
+            <div>
+              <Label>Format</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {FORMAT_OPTIONS.map(option => (
+                  <label
+                    key={option.format}
+                    className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer ${
+                      format === option.format ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="presentation-format"
+                      checked={format === option.format}
+                      onChange={() => setFormat(option.format)}
+                      className="mt-1 accent-indigo-600"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-900">{option.label}</span>
+                      <span className="block text-xs text-slate-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className={`flex items-center gap-2 text-sm text-slate-700 ${starredCount === 0 ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={onlyStarred && starredCount > 0}
+                disabled={starredCount === 0}
+                onChange={(e) => setOnlyStarred(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              Only starred designs {starredCount === 0 && '(none starred)'}
+            </label>
+
+            <p className="text-xs text-slate-500">
+              Includes the current photo and mask, the brief, {usedReferences} reference{usedReferences === 1 ? '' : 's'},
+              and {variantCount} design{variantCount === 1 ? '' : 's'} with before and after pages.
+            </p>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-200">
+            <Button variant="outline" onClick={onClose} disabled={isExporting} className="px-3 py-1 text-sm">
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={isExporting || finished.length === 0} className="px-3 py-1 text-sm flex items-center gap-2">
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              {isExporting ? 'Building...' : 'Export'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default PresentationDialog;
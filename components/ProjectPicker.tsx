@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectService';
+import { Button, Card, Input } from './ui';
+import { Copy, Download, FolderOpen, Loader2, Pencil, Plus, Trash2, Upload, X, Image as ImageIcon } from 'lucide-react';
+
+interface ProjectPickerProps {
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  // Download a project as a portable bundle, and restore one as a new project
+  onExport: (id: string) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onNew: () => void;
+  onClose: () => void;
+  // Called when the currently open project is renamed or deleted from the picker
+  onCurrentRenamed: (name: string) => void;
+  onCurrentDeleted: () => void;
+}
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  currentProjectId,
+  onOpen,
+  onExport,
+  onImport,
+  onNew,
+  onClose,
+  onCurrentRenamed,
+  onCurrentDeleted
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not load saved projects.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Thumbnails are object URLs, so release them whenever the list changes
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(p => {
+      if (p.thumbnail) urls[p.id] = URL.createObjectURL(p.thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = editingName.trim();
+    if (name) {
+      await renameProject(editingId, name);
+      if (editingId === currentProjectId) onCurrentRenamed(name);
+      await refresh();
+    }
+    setEditingId(null);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    await refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    if (project.id === currentProjectId) onCurrentDeleted();
+    await refresh();
+  };
+
+  const handleExport = async (id: string) => {
+    setBundleError(null);
+    setExportingId(id);
+    try {
+      await onExport(id);
+    } catch (err: any) {
+      setBundleError(err.message || "Could not export the project.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBundleError(null);
+    setIsImporting(true);
+    try {
+      await onImport(file);
+    } catch (err: any) {
+      setBundleError(err.message || "Could not import the project.");
+      await refresh();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <Card className="w-full max-w-3xl">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <h2 className="text-lg font-bold text-slate-900">Saved Projects</h2>
+            <div className="flex items-center gap-2">
+              <input ref={importInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+              <Button
+                variant="outline"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="px-3 py-1 text-sm flex items-center gap-2"
+                title="Open a project bundle exported from StoreFront AI"
+              >
+                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} Import
+              </Button>
+              <Button onClick={onNew} className="px-3 py-1 text-sm flex items-center gap-2">
+                <Plus className="w-4 h-4" /> New Project
+              </Button>
+              <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 space-y-3 max-h-[70vh] overflow-y-auto">
+            {bundleError && <p className="text-sm text-red-600">{bundleError}</p>}
+            {isLoading && <p className="text-center text-slate-400 py-8">Loading projects...</p>}
+            {error && <p className="text-center text-red-600 py-8">{error}</p>}
+            {!isLoading && !error && projects.length === 0 && (
+              <div className="text-center py-10 text-slate-400">
+                <FolderOpen className="w-12 h-12 mx-auto mb-2 opacity-20" />
+                No saved projects yet. Your work is saved automatically as you go.
+              </div>
+            )}
+
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`flex items-center gap-4 p-3 rounded-lg border ${
+                  project.id === currentProjectId ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 bg-white'
+                }`}
+              >
+                <div className="w-20 h-16 flex-shrink-0 bg-slate-100 rounded overflow-hidden flex items-center justify-center">
+                  {thumbnails[project.id] ? (
+                    <img src={thumbnails[project.id]} alt={project.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <ImageIcon className="w-6 h-6 text-slate-300" />
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === project.id ? (
+                    <Input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                    />
+                  ) : (
+                    <p className="font-medium text-slate-900 truncate">{project.name}</p>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    Last edited {new Date(project.updatedAt).toLocaleString()}
+                    {project.id === currentProjectId && ' · Open now'}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <Button variant="outline" onClick={() => onOpen(project.id)} className="px-3 py-1 text-sm" disabled={project.id === currentProjectId}>
+                    Open
+                  </Button>
+                  <button onClick={() => startRename(project)} className="p-2 text-slate-400 hover:text-slate-700" title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleExport(project.id)}
+                    disabled={exportingId !== null}
+                    className="p-2 text-slate-400 hover:text-slate-700 disabled:opacity-50"
+                    title="Export as bundle"
+                  >
+                    {exportingId === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className="p-2 text-slate-400 hover:text-slate-700" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="p-2 text-slate-400 hover:text-red-600" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ProjectPicker;
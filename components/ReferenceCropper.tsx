@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { CropRegion } from '../types';
+import { Button, Card } from './ui';
+import { X } from 'lucide-react';
+
+interface ReferenceCropperProps {
+  imageUrl: string;
+  crop: CropRegion | null;
+  onSave: (crop: CropRegion | null) => void;
+  onClose: () => void;
+}
+
+// Smaller selections are almost always accidental clicks
+const MIN_CROP_SIZE = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const ReferenceCropper: React.FC<ReferenceCropperProps> = ({ imageUrl, crop, onSave, onClose }) => {
+  const [region, setRegion] = useState<CropRegion | null>(crop);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toFraction(e);
+    setRegion(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toFraction(e);
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+    setRegion(prev => prev && prev.width >= MIN_CROP_SIZE && prev.height >= MIN_CROP_SIZE ? prev : null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <Card className="w-full max-w-3xl">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <div>
+              <h2 className="text-lg font-bold text-slate-900">Crop Reference</h2>
+              <p className="text-xs text-slate-500">Drag over the part of the image that matters. Only that part is sent to the model.</p>
+            </div>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-4 flex justify-center bg-slate-50">
+            <div
+              ref={frameRef}
+              className="relative inline-block overflow-hidden cursor-crosshair select-none touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={imageUrl} alt="Reference" className="block max-w-full max-h-[60vh] pointer-events-none" draggable={false} />
+              {region && (
+                <div
+                  className="absolute border-2 border-white pointer-events-none"
+                  style={{
+                    left: `${region.x * 100}%`,
+                    top: `${region.y * 100}%`,
+                    width: `${region.width * 100}%`,
+                    height: `${region.height * 100}%`,
+                    // Darken everything outside the selection
+                    boxShadow: '0 0 0 9999px rgba(15, 23, 42, 0.55)',
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-200">
+            <Button variant="outline" onClick={() => setRegion(null)} disabled={!region} className="mr-auto px-3 py-1 text-sm">
+              Use whole image
+            </Button>
+            <Button variant="outline" onClick={onClose} className="px-3 py-1 text-sm">
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(region)} className="px-3 py-1 text-sm">
+              Save
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ReferenceCropper;
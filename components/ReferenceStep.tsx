@@ -1,34 +1,110 @@
-import React, { useRef } from 'react';
-import { ReferenceItem } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRegion, ReferenceItem, ReferenceRole, UploadSettings } from '../types';
 import { generateId } from '../utils';
+import { DEFAULT_REFERENCE_WEIGHT, REFERENCE_ROLES, REFERENCE_WEIGHTS } from '../services/geminiService';
+import { extractPalette } from '../services/paletteService';
+import { preprocessUpload } from '../services/uploadService';
 import { Button, Card, Label, TextArea } from './ui';
-import { Trash2, Upload, Image as ImageIcon } from 'lucide-react';
+import ReferenceCropper from './ReferenceCropper';
+import PaletteSwatches from './PaletteSwatches';
+import { Trash2, Upload, Crop, Image as ImageIcon, Images } from 'lucide-react';
 
 interface ReferenceStepProps {
   references: ReferenceItem[];
   setReferences: React.Dispatch<React.SetStateAction<ReferenceItem[]>>;
+  uploadSettings: UploadSettings;
   onNext: () => void;
+  // Applies the references to many photos at once instead of one
+  onBatch: () => void;
 }
 
-const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences, onNext }) => {
+const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences, uploadSettings, onNext, onBatch }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const croppingRef = references.find(ref => ref.id === croppingId);
+  // Extractions in flight, so re-renders don't start the same one twice
+  const extractingRef = useRef(new Set<string>());
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const newRefs: ReferenceItem[] = Array.from(e.target.files).map((file: File) => ({
-        id: generateId(),
-        file,
-        previewUrl: URL.createObjectURL(file),
-        description: ''
-      }));
-      setReferences(prev => [...prev, ...newRefs]);
-    }
+  // Extract a palette for any reference that doesn't have one yet, e.g. after upload or a new crop
+  useEffect(() => {
+    references.forEach(ref => {
+      if (ref.palette !== null) return;
+      const key = `${ref.id}:${JSON.stringify(ref.crop)}`;
+      if (extractingRef.current.has(key)) return;
+      extractingRef.current.add(key);
+      const crop = ref.crop;
+      extractPalette(ref.file, crop)
+        .catch(err => {
+          console.warn("Could not extract palette", err);
+          return [];
+        })
+        .then(palette => {
+          extractingRef.current.delete(key);
+          // Drop the result if the crop changed while extracting
+          setReferences(prev => prev.map(r => r.id === ref.id && JSON.stringify(r.crop) === JSON.stringify(crop) && r.palette === null ? { ...r, palette } : r));
+        });
+    });
+  }, [references, setReferences]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
     // Reset input
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    setUploadError(null);
+    setPendingUploads(prev => prev + files.length);
+    // Each image is added as soon as it's ready, in upload order per batch
+    await Promise.all(files.map(async (original: File) => {
+      try {
+        const file = await preprocessUpload(original, uploadSettings);
+        const ref: ReferenceItem = {
+          id: generateId(),
+          file,
+          previewUrl: URL.createObjectURL(file),
+          description: '',
+          roles: [],
+          weight: DEFAULT_REFERENCE_WEIGHT,
+          crop: null,
+          palette: null,
+          pinnedColors: [],
+        };
+        setReferences(prev => [...prev, ref]);
+      } catch (err: any) {
+        console.error("Failed to prepare reference:", err);
+        setUploadError(`Could not read ${original.name}. ${err.message || ''}`.trim());
+      } finally {
+        setPendingUploads(prev => prev - 1);
+      }
+    }));
+  };
+
+  const updateReference = (id: string, changes: Partial<ReferenceItem>) => {
+    setReferences(prev => prev.map(ref => ref.id === id ? { ...ref, ...changes } : ref));
   };
 
   const handleDescriptionChange = (id: string, text: string) => {
-    setReferences(prev => prev.map(ref => ref.id === id ? { ...ref, description: text } : ref));
+    updateReference(id, { description: text });
+  };
+
+  const toggleRole = (ref: ReferenceItem, role: ReferenceRole) => {
+    const roles = ref.roles.includes(role) ? ref.roles.filter(r => r !== role) : [...ref.roles, role];
+    updateReference(ref.id, { roles });
+  };
+
+  const togglePinnedColor = (ref: ReferenceItem, hex: string) => {
+    const pinnedColors = ref.pinnedColors.includes(hex)
+      ? ref.pinnedColors.filter(c => c !== hex)
+      : [...ref.pinnedColors, hex];
+    updateReference(ref.id, { pinnedColors });
+  };
+
+  const saveCrop = (crop: CropRegion | null) => {
+    // A new crop changes which colours matter, so extract the palette again
+    if (croppingId) updateReference(croppingId, { crop, palette: null });
+    setCroppingId(null);
   };
 
   const handleRemove = (id: string) => {
@@ -39,7 +115,7 @@ const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences
     <div className="space-y-6 animate-fade-in">
       <div className="text-center space-y-2">
         <h2 className="text-2xl font-bold text-slate-900">Step 1: Style References</h2>
-        <p className="text-slate-600">Upload images of styles, materials, or details you like. Add a note to each to explain what to copy.</p>
+        <p className="text-slate-600">Upload images of styles, materials, or details you like. Tag what to take from each, and crop to the detail that matters.</p>
       </div>
 
       {/* Upload Area */}
@@ -51,7 +127,9 @@ const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences
           <Upload className="w-6 h-6 text-indigo-600" />
         </div>
         <p className="text-indigo-900 font-medium">Click to upload reference images</p>
-        <p className="text-sm text-slate-500 mt-1">Supports JPG, PNG</p>
+        <p className="text-sm text-slate-500 mt-1">
+          {pendingUploads > 0 ? `Preparing ${pendingUploads} image(s)...` : 'Supports JPG, PNG'}
+        </p>
         <input 
           ref={fileInputRef}
           type="file" 
@@ -62,27 +140,82 @@ const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences
         />
       </div>
 
+      {uploadError && <p className="text-sm text-red-600 text-center">{uploadError}</p>}
+
       {/* List of References */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {references.map((ref) => (
           <Card key={ref.id} className="flex flex-col md:flex-row p-4 gap-4">
-            <div className="w-full md:w-32 h-32 flex-shrink-0 bg-slate-100 rounded-lg overflow-hidden relative group">
-              <img src={ref.previewUrl} alt="Reference" className="w-full h-full object-cover" />
-              <button 
-                onClick={(e) => { e.stopPropagation(); handleRemove(ref.id); }}
-                className="absolute top-1 right-1 bg-white/90 p-1.5 rounded-full text-red-600 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-50"
+            <div className="w-full md:w-32 flex-shrink-0 space-y-2">
+              <div className="h-32 bg-slate-100 rounded-lg overflow-hidden relative group">
+                <img src={ref.previewUrl} alt="Reference" className="w-full h-full object-cover" />
+                {ref.crop && (
+                  <span className="absolute bottom-1 left-1 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded">Cropped</span>
+                )}
+                <button 
+                  onClick={(e) => { e.stopPropagation(); handleRemove(ref.id); }}
+                  className="absolute top-1 right-1 bg-white/90 p-1.5 rounded-full text-red-600 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <button
+                onClick={() => setCroppingId(ref.id)}
+                className="w-full flex items-center justify-center gap-1 text-xs font-medium text-slate-600 hover:text-indigo-600"
               >
-                <Trash2 className="w-4 h-4" />
+                <Crop className="w-3 h-3" /> {ref.crop ? 'Edit crop' : 'Crop'}
               </button>
             </div>
-            <div className="flex-1 space-y-2">
-              <Label htmlFor={`desc-${ref.id}`}>What should we take from this image?</Label>
+            <div className="flex-1 space-y-3">
+              <div>
+                <Label>Use it for</Label>
+                <div className="flex flex-wrap gap-1">
+                  {REFERENCE_ROLES.map(({ role, label }) => (
+                    <button
+                      key={role}
+                      onClick={() => toggleRole(ref, role)}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${
+                        ref.roles.includes(role)
+                          ? 'bg-indigo-600 border-indigo-600 text-white'
+                          : 'border-slate-300 text-slate-600 hover:border-indigo-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label className="mb-0">Influence</Label>
+                <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+                  {REFERENCE_WEIGHTS.map(({ weight, label }) => (
+                    <button
+                      key={weight}
+                      onClick={() => updateReference(ref.id, { weight })}
+                      className={`px-2 py-0.5 text-xs ${
+                        ref.weight === weight ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Colors <span className="font-normal text-slate-400">(click to pin exact colors)</span></Label>
+                <PaletteSwatches
+                  colors={ref.palette}
+                  pinned={ref.pinnedColors}
+                  onTogglePin={(hex) => togglePinnedColor(ref, hex)}
+                />
+              </div>
+              <Label htmlFor={`desc-${ref.id}`}>Notes</Label>
               <TextArea 
                 id={`desc-${ref.id}`}
                 placeholder="e.g., Use this wooden slat texture for the sign..."
                 value={ref.description}
                 onChange={(e) => handleDescriptionChange(ref.id, e.target.value)}
-                rows={3}
+                rows={2}
                 className="resize-none"
               />
             </div>
@@ -96,11 +229,29 @@ const ReferenceStep: React.FC<ReferenceStepProps> = ({ references, setReferences
         )}
       </div>
 
-      <div className="flex justify-end pt-4">
-        <Button onClick={onNext} disabled={references.length === 0}>
+      <div className="flex justify-end gap-3 pt-4">
+        <Button
+          variant="outline"
+          onClick={onBatch}
+          disabled={references.length === 0 || pendingUploads > 0}
+          className="flex items-center gap-2"
+          title="Roll the same design out across many storefront photos"
+        >
+          <Images className="w-4 h-4" /> Batch Mode
+        </Button>
+        <Button onClick={onNext} disabled={references.length === 0 || pendingUploads > 0}>
           Next Step
         </Button>
       </div>
+
+      {croppingRef && (
+        <ReferenceCropper
+          imageUrl={croppingRef.previewUrl}
+          crop={croppingRef.crop}
+          onSave={saveCrop}
+          onClose={() => setCroppingId(null)}
+        />
+      )}
     </div>
   );
 };
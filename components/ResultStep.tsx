@@ -1,29 +1,192 @@
-import React from 'react';
-import { Button, Card, Spinner } from './ui';
-import { Download, RefreshCw, ChevronLeft } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { DesignVariant, GenerationErrorKind, GenerationFailure, GenerationNode, PromptTemplate, ReferenceItem } from '../types';
+import { Button, Card } from './ui';
+import VersionTree from './VersionTree';
+import CompareViewer, { CompareMode } from './CompareViewer';
+import PresentationDialog from './PresentationDialog';
+import { compositeDesign, DEFAULT_FEATHER_RADIUS, MAX_FEATHER_RADIUS } from '../services/compositeService';
+import { findTemplate } from '../services/templateService';
+import { downloadUrl } from '../utils';
+import { Download, RefreshCw, ChevronLeft, Star, Trash2, AlertTriangle, Wand2, Settings, Square, MessageSquareText, Presentation } from 'lucide-react';
+
+const COMPARE_MODES: { mode: CompareMode; label: string }[] = [
+  { mode: 'result', label: 'Result' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'side-by-side', label: 'Side by side' },
+  { mode: 'blink', label: 'Blink' },
+];
+
+// What to tell the user for each kind of failure. `settings` offers a shortcut
+// to the Settings panel when a setting there is the likely fix.
+const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; advice: string; settings?: boolean }> = {
+  'missing-key': {
+    title: 'No API key configured',
+    advice: 'Set GEMINI_API_KEY for the API server and restart it, or switch to the mock provider in Settings.',
+    settings: true,
+  },
+  'rate-limit': {
+    title: 'Rate limit reached',
+    advice: 'Too many requests in a short time. Wait a minute and try again, or generate fewer variants at once.',
+  },
+  'safety': {
+    title: 'Blocked by safety filters',
+    advice: 'The model declined this request. Rephrase the prompt or try different reference images.',
+  },
+  'text-only': {
+    title: 'No image came back',
+    advice: 'The model answered with text only. Its reply usually says why; adjust the prompt or references and try again.',
+  },
+  'network': {
+    title: 'Could not reach the server',
+    advice: 'Check that the API server is running (npm run server) and that you are online.',
+  },
+  'payload-too-large': {
+    title: 'Request too large',
+    advice: 'Remove some references or lower the maximum image size in Settings.',
+    settings: true,
+  },
+  'timeout': {
+    title: 'The model took too long',
+    advice: 'Try again, or raise the timeout in Settings if large requests keep timing out.',
+    settings: true,
+  },
+  'server': {
+    title: 'The generation service failed',
+    advice: 'This is usually temporary. Try again in a moment.',
+  },
+  'cancelled': {
+    title: 'Generation cancelled',
+    advice: 'Nothing was generated.',
+  },
+  'unknown': {
+    title: 'Something went wrong',
+    advice: 'Try again. If it keeps failing, check the API server logs.',
+  },
+};
 
 interface ResultStepProps {
   isLoading: boolean;
-  resultUrl: string | null;
-  error: string | null;
+  generations: GenerationNode[];
+  activeGeneration: GenerationNode | null;
+  references: ReferenceItem[];
+  templates: PromptTemplate[];
+  projectName: string;
+  selectedVariantId: string | null;
+  onSelectGeneration: (id: string) => void;
+  onRefine: (variantId: string) => void;
+  onBranch: (generationId: string) => void;
+  onSelectVariant: (id: string) => void;
+  onToggleStar: (id: string) => void;
+  onDiscard: (id: string) => void;
+  error: GenerationFailure | null;
+  onCancel: () => void;
+  onOpenSettings: () => void;
   onReset: () => void;
   onBack: () => void;
 }
 
-const ResultStep: React.FC<ResultStepProps> = ({ isLoading, resultUrl, error, onReset, onBack }) => {
+const ResultStep: React.FC<ResultStepProps> = ({
+  isLoading,
+  generations,
+  activeGeneration,
+  references,
+  templates,
+  projectName,
+  selectedVariantId,
+  onSelectGeneration,
+  onRefine,
+  onBranch,
+  onSelectVariant,
+  onToggleStar,
+  onDiscard,
+  error,
+  onCancel,
+  onOpenSettings,
+  onReset,
+  onBack
+}) => {
+  const variants = activeGeneration?.variants || [];
+  const finishedVariants = variants.filter(v => v.status === 'done');
+  const selectedVariant = variants.find(v => v.id === selectedVariantId && v.status === 'done') || finishedVariants[0];
+
+  const [compareMode, setCompareMode] = useState<CompareMode>('result');
+  const [showMaskOutline, setShowMaskOutline] = useState(false);
+  const [isPresentationOpen, setIsPresentationOpen] = useState(false);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+
+  // The original is the target this generation was made from, which may itself be an earlier result
+  useEffect(() => {
+    if (!activeGeneration) {
+      setOriginalUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(activeGeneration.targetImage);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [activeGeneration?.targetImage]);
   
-  const handleDownload = () => {
-    if (resultUrl) {
-      const link = document.createElement('a');
-      link.href = resultUrl;
-      link.download = 'storefront-design.png';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const [blendIntoOriginal, setBlendIntoOriginal] = useState(true);
+  const [featherRadius, setFeatherRadius] = useState(DEFAULT_FEATHER_RADIUS);
+  const [composite, setComposite] = useState<{ variantId: string; url: string } | null>(null);
+  const [isCompositing, setIsCompositing] = useState(false);
+  const [compositeError, setCompositeError] = useState<string | null>(null);
+
+  // Rebuild the full-resolution composite whenever the variant or feathering changes
+  useEffect(() => {
+    if (!blendIntoOriginal || !activeGeneration || !selectedVariant?.imageUrl) {
+      setComposite(null);
+      return;
+    }
+    let cancelled = false;
+    const variantId = selectedVariant.id;
+    setIsCompositing(true);
+    setCompositeError(null);
+    const timer = window.setTimeout(async () => {
+      try {
+        const blob = await compositeDesign(
+          activeGeneration.targetImage,
+          selectedVariant.imageUrl!,
+          activeGeneration.maskImageBase64,
+          { featherRadius }
+        );
+        if (cancelled) return;
+        setComposite({ variantId, url: URL.createObjectURL(blob) });
+      } catch (err: any) {
+        if (!cancelled) setCompositeError(err.message || "Could not blend the design into the original photo.");
+      } finally {
+        if (!cancelled) setIsCompositing(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [blendIntoOriginal, featherRadius, activeGeneration?.id, selectedVariant?.id]);
+
+  // Release the previous composite once it has been replaced
+  useEffect(() => () => {
+    if (composite) URL.revokeObjectURL(composite.url);
+  }, [composite]);
+
+  const compositeUrl = composite && composite.variantId === selectedVariant?.id ? composite.url : null;
+
+  // Variant thumbnails download the raw model output; the main download uses the composite when enabled
+  const handleDownload = (variant: DesignVariant) => {
+    if (variant.imageUrl) {
+      downloadUrl(variant.imageUrl, `storefront-design-${variants.indexOf(variant) + 1}.png`);
     }
   };
 
-  if (isLoading) {
+  const handleDownloadHighRes = (variant: DesignVariant) => {
+    if (blendIntoOriginal && compositeUrl) {
+      downloadUrl(compositeUrl, `storefront-design-${variants.indexOf(variant) + 1}-full.png`);
+    } else {
+      handleDownload(variant);
+    }
+  };
+
+  // Keep the full-page loader until the first variant arrives
+  if (isLoading && finishedVariants.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6 animate-fade-in">
         <div className="relative">
@@ -35,17 +198,35 @@ const ResultStep: React.FC<ResultStepProps> = ({ isLoading, resultUrl, error, on
                 Our AI architects are analyzing your references and applying the new design to the masked area. This usually takes about 10-20 seconds.
             </p>
         </div>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
       </div>
     );
   }
 
-  if (error) {
+  const guidance = error ? ERROR_GUIDANCE[error.kind] : null;
+  const modelReply = error?.modelText && (
+      <blockquote className="p-3 bg-white border-l-4 border-red-300 rounded text-left text-sm text-slate-700 whitespace-pre-wrap">
+          <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">The model said</span>
+          {error.modelText}
+      </blockquote>
+  );
+
+  if (error && guidance && finishedVariants.length === 0) {
      return (
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6 animate-fade-in">
              <div className="bg-red-50 p-6 rounded-xl border border-red-100 max-w-lg text-center">
-                 <h3 className="text-red-800 font-bold text-lg mb-2">Something went wrong</h3>
-                 <p className="text-red-600 mb-6">{error}</p>
-                 <Button onClick={onBack}>Try Again</Button>
+                 <h3 className="text-red-800 font-bold text-lg mb-2">{guidance.title}</h3>
+                 <p className="text-red-700 mb-2">{guidance.advice}</p>
+                 <p className="text-red-500 text-sm mb-6">{error.message}</p>
+                 {modelReply && <div className="mb-6">{modelReply}</div>}
+                 <div className="flex justify-center gap-2">
+                     {guidance.settings && (
+                         <Button variant="outline" onClick={onOpenSettings}>
+                             <Settings className="w-4 h-4 mr-2" /> Open Settings
+                         </Button>
+                     )}
+                     <Button onClick={onBack}>Try Again</Button>
+                 </div>
              </div>
         </div>
      )
@@ -56,9 +237,20 @@ const ResultStep: React.FC<ResultStepProps> = ({ isLoading, resultUrl, error, on
        <div className="flex justify-between items-center">
             <div>
                 <h2 className="text-2xl font-bold text-slate-900">Your Design Concept</h2>
-                <p className="text-slate-600">Generated based on your references and context.</p>
+                <p className="text-slate-600">
+                  {isLoading
+                    ? `Generating variants... ${finishedVariants.length} of ${variants.length} ready.`
+                    : variants.length > 1
+                      ? 'Pick a variant below. Star the ones worth keeping and discard the rest.'
+                      : 'Generated based on your references and context.'}
+                </p>
             </div>
             <div className="flex gap-2">
+                {isLoading && (
+                    <Button variant="outline" onClick={onCancel}>
+                        <Square className="w-4 h-4 mr-2" /> Stop
+                    </Button>
+                )}
                 <Button variant="outline" onClick={onBack}>
                     <ChevronLeft className="w-4 h-4 mr-2" /> Adjust
                 </Button>
@@ -68,17 +260,195 @@ const ResultStep: React.FC<ResultStepProps> = ({ isLoading, resultUrl, error, on
             </div>
        </div>
 
-       <Card className="p-2 bg-slate-900 border-slate-800">
-            <div className="relative rounded-lg overflow-hidden group">
-                 {resultUrl && <img src={resultUrl} alt="Generated Design" className="w-full h-auto" />}
-                 
-                 <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-center">
-                     <Button onClick={handleDownload} className="shadow-lg">
-                        <Download className="w-4 h-4 mr-2" /> Download High Res
-                     </Button>
-                 </div>
+       {/* A later run failed; the earlier result stays on screen below the failure */}
+       {error && guidance && (
+         <div role="alert" className="flex items-start gap-3 bg-red-50 p-4 rounded-xl border border-red-100">
+             <AlertTriangle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+             <div className="flex-1 space-y-1">
+                 <h3 className="text-red-800 font-semibold">{guidance.title}</h3>
+                 <p className="text-red-700 text-sm">{guidance.advice}</p>
+                 <p className="text-red-500 text-sm">{error.message}</p>
+                 {modelReply && <div className="pt-2">{modelReply}</div>}
+             </div>
+             {guidance.settings && (
+                 <Button variant="outline" onClick={onOpenSettings}>
+                     <Settings className="w-4 h-4 mr-2" /> Open Settings
+                 </Button>
+             )}
+         </div>
+       )}
+
+       {selectedVariant && (
+         <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+                <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+                    {COMPARE_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => setCompareMode(mode)}
+                            className={`px-3 py-1.5 text-sm ${compareMode === mode ? 'bg-indigo-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-50'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={showMaskOutline}
+                        onChange={(e) => setShowMaskOutline(e.target.checked)}
+                        className="accent-indigo-600"
+                    />
+                    Show mask outline
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer" title="Scale the result to the original photo and only keep changes inside the mask">
+                    <input
+                        type="checkbox"
+                        checked={blendIntoOriginal}
+                        onChange={(e) => setBlendIntoOriginal(e.target.checked)}
+                        className="accent-indigo-600"
+                    />
+                    Blend into original
+                </label>
+                {blendIntoOriginal && (
+                    <div className="flex items-center gap-2 text-sm text-slate-700">
+                        <span>Feather</span>
+                        <input
+                            type="range"
+                            min="0"
+                            max={MAX_FEATHER_RADIUS}
+                            value={featherRadius}
+                            onChange={(e) => setFeatherRadius(Number(e.target.value))}
+                            className="w-20 accent-indigo-600"
+                        />
+                        <span className="text-xs text-slate-500 w-10">{featherRadius}px</span>
+                    </div>
+                )}
+            </div>
+            <div className="flex gap-2">
+                <Button onClick={() => onRefine(selectedVariant.id)} variant="outline" className="flex items-center">
+                   <Wand2 className="w-4 h-4 mr-2" /> Refine this
+                </Button>
+                <Button onClick={() => setIsPresentationOpen(true)} variant="outline" className="flex items-center">
+                   <Presentation className="w-4 h-4 mr-2" /> Export presentation
+                </Button>
+                <Button
+                    onClick={() => handleDownloadHighRes(selectedVariant)}
+                    disabled={blendIntoOriginal && isCompositing}
+                    className="flex items-center"
+                >
+                   <Download className="w-4 h-4 mr-2" /> {blendIntoOriginal && isCompositing ? 'Blending...' : 'Download High Res'}
+                </Button>
             </div>
+         </div>
+       )}
+
+       <Card className="p-2 bg-slate-900 border-slate-800">
+            {selectedVariant?.imageUrl && (
+              <CompareViewer
+                originalUrl={originalUrl}
+                resultUrl={compositeUrl || selectedVariant.imageUrl}
+                maskUrl={activeGeneration?.maskImageBase64 || null}
+                mode={compareMode}
+                showMaskOutline={showMaskOutline}
+              />
+            )}
        </Card>
+       {compositeError && blendIntoOriginal && (
+         <p className="text-sm text-red-600 text-center">{compositeError} Showing the raw model output instead.</p>
+       )}
+
+       {selectedVariant?.notes && (
+         <div className="bg-white border border-slate-200 rounded-lg p-4">
+           <h4 className="flex items-center gap-2 font-semibold text-slate-900 mb-1">
+             <MessageSquareText className="w-4 h-4 text-indigo-600" /> Design notes
+           </h4>
+           <p className="text-sm text-slate-600 whitespace-pre-wrap">{selectedVariant.notes}</p>
+         </div>
+       )}
+
+       {/* Variant grid */}
+       {variants.length > 1 && (
+         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+           {variants.map((variant, index) => (
+             <div
+               key={variant.id}
+               onClick={() => variant.status === 'done' && onSelectVariant(variant.id)}
+               className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-slate-100 group ${
+                 variant.id === selectedVariant?.id ? 'border-indigo-600' : 'border-transparent'
+               } ${variant.status === 'done' ? 'cursor-pointer' : ''}`}
+             >
+               {variant.status === 'pending' && (
+                 <div className="w-full h-full flex items-center justify-center">
+                   <div className="w-8 h-8 rounded-full border-4 border-slate-200 border-t-indigo-600 animate-spin"></div>
+                 </div>
+               )}
+               {variant.status === 'failed' && (
+                 <div className="w-full h-full flex flex-col items-center justify-center p-2 text-center" title={[variant.error, variant.notes].filter(Boolean).join('\n\n') || undefined}>
+                   <AlertTriangle className="w-6 h-6 text-red-400 mb-1" />
+                   <span className="text-xs text-red-600">Failed</span>
+                 </div>
+               )}
+               {variant.status === 'done' && variant.imageUrl && (
+                 <img src={variant.imageUrl} alt={`Variant ${index + 1}`} className="w-full h-full object-cover" />
+               )}
+
+               <span className="absolute top-1 left-1 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">{index + 1}</span>
+               {variant.starred && (
+                 <Star className="absolute top-1 right-1 w-4 h-4 text-amber-400 fill-amber-400 drop-shadow group-hover:hidden" />
+               )}
+
+               {variant.status !== 'pending' && (
+                 <div className="absolute top-1 right-1 hidden group-hover:flex gap-1">
+                   {variant.status === 'done' && (
+                     <>
+                       <button
+                         onClick={(e) => { e.stopPropagation(); onToggleStar(variant.id); }}
+                         className="bg-white/90 p-1 rounded-full hover:bg-amber-50"
+                         title={variant.starred ? 'Unstar' : 'Star'}
+                       >
+                         <Star className={`w-3.5 h-3.5 ${variant.starred ? 'text-amber-500 fill-amber-400' : 'text-slate-600'}`} />
+                       </button>
+                       <button
+                         onClick={(e) => { e.stopPropagation(); handleDownload(variant); }}
+                         className="bg-white/90 p-1 rounded-full text-slate-600 hover:bg-slate-50"
+                         title="Download"
+                       >
+                         <Download className="w-3.5 h-3.5" />
+                       </button>
+                     </>
+                   )}
+                   <button
+                     onClick={(e) => { e.stopPropagation(); onDiscard(variant.id); }}
+                     className="bg-white/90 p-1 rounded-full text-red-600 hover:bg-red-50"
+                     title="Discard"
+                   >
+                     <Trash2 className="w-3.5 h-3.5" />
+                   </button>
+                 </div>
+               )}
+             </div>
+           ))}
+         </div>
+       )}
+
+       {selectedVariant && variants.length === 1 && (
+         <div className="flex justify-center">
+           <Button variant="outline" onClick={() => onToggleStar(selectedVariant.id)} className="flex items-center">
+             <Star className={`w-4 h-4 mr-2 ${selectedVariant.starred ? 'text-amber-500 fill-amber-400' : ''}`} />
+             {selectedVariant.starred ? 'Starred' : 'Star this design'}
+           </Button>
+         </div>
+       )}
+
+       {generations.length > 1 && (
+         <VersionTree
+           generations={generations}
+           activeGenerationId={activeGeneration?.id || null}
+           onSelect={onSelectGeneration}
+           onBranch={onBranch}
+         />
+       )}
 
        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-6 border-t border-slate-200">
            <div className="bg-blue-50 p-4 rounded-lg">
@@ -94,6 +464,16 @@ const ResultStep: React.FC<ResultStepProps> = ({ isLoading, resultUrl, error, on
                <p className="text-sm text-emerald-700">Notice how the design blends with the existing perspective of the building.</p>
            </div>
        </div>
+
+       {isPresentationOpen && activeGeneration && (
+         <PresentationDialog
+           generation={activeGeneration}
+           references={references}
+           templateName={findTemplate(templates, activeGeneration.promptOptions.templateId).name}
+           projectName={projectName}
+           onClose={() => setIsPresentationOpen(false)}
+         />
+       )}
     </div>
   );
 };
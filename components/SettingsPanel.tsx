@@ -0,0 +1,193 @@
+import React from 'react';
+import { AppSettings, GenerationSettings, UploadFormat, UploadSettings } from '../types';
+import { PROVIDERS } from '../services/providers';
+import { Card, Input, Label } from './ui';
+import { X } from 'lucide-react';
+
+const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+const FORMAT_OPTIONS: { format: UploadFormat; label: string }[] = [
+  { format: 'image/jpeg', label: 'JPEG' },
+  { format: 'image/webp', label: 'WebP' },
+  { format: 'image/png', label: 'PNG (lossless, large)' },
+];
+
+const selectClass = "w-full px-3 py-2 border border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { generation, upload } = settings;
+  const activeProvider = PROVIDERS.find(p => p.id === generation.providerId) || PROVIDERS[0];
+
+  const selectProvider = (providerId: string) => {
+    const provider = PROVIDERS.find(p => p.id === providerId);
+    if (!provider) return;
+    onChange({ ...settings, generation: { ...generation, providerId, model: provider.defaultModel } });
+  };
+
+  const updateGeneration = (changes: Partial<GenerationSettings>) => {
+    onChange({ ...settings, generation: { ...generation, ...changes } });
+  };
+
+  const updateUpload = (changes: Partial<UploadSettings>) => {
+    onChange({ ...settings, upload: { ...upload, ...changes } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <Card className="w-full max-w-xl">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <h2 className="text-lg font-bold text-slate-900">Settings</h2>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-6">
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-slate-900 uppercase tracking-wide">Image Generation</h3>
+              <div className="space-y-2">
+                {PROVIDERS.map(provider => (
+                  <label
+                    key={provider.id}
+                    className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                      provider.id === activeProvider.id ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="provider"
+                      checked={provider.id === activeProvider.id}
+                      onChange={() => selectProvider(provider.id)}
+                      className="mt-1 accent-indigo-600"
+                    />
+                    <div>
+                      <p className="font-medium text-slate-900">{provider.label}</p>
+                      <p className="text-xs text-slate-500">{provider.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <Label htmlFor="model-select">Model</Label>
+                <select
+                  id="model-select"
+                  value={generation.model}
+                  onChange={(e) => updateGeneration({ model: e.target.value })}
+                  className={selectClass}
+                >
+                  {activeProvider.models.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="timeout-seconds">Timeout (seconds)</Label>
+                  <Input
+                    id="timeout-seconds"
+                    type="number"
+                    min={10}
+                    max={600}
+                    value={generation.timeoutSeconds}
+                    onChange={(e) => updateGeneration({ timeoutSeconds: Math.max(10, Number(e.target.value) || 10) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="max-retries">Retries</Label>
+                  <Input
+                    id="max-retries"
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={generation.maxRetries}
+                    onChange={(e) => updateGeneration({ maxRetries: Math.min(5, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">Rate limits, network errors, timeouts and server errors are retried with a growing delay. Each attempt gets the full timeout.</p>
+            </section>
+
+            <section className="space-y-3">
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 uppercase tracking-wide">Uploads</h3>
+                <p className="text-xs text-slate-500">
+                  Photos are turned upright and scaled down before they're sent. The photo you edit keeps its full resolution for the final composite.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="max-edge">Max image size</Label>
+                  <select
+                    id="max-edge"
+                    value={upload.maxEdge}
+                    onChange={(e) => updateUpload({ maxEdge: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {MAX_EDGE_OPTIONS.map(edge => (
+                      <option key={edge} value={edge}>{edge}px longest side</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="upload-format">Format</Label>
+                  <select
+                    id="upload-format"
+                    value={upload.format}
+                    onChange={(e) => updateUpload({ format: e.target.value as UploadFormat })}
+                    className={selectClass}
+                  >
+                    {FORMAT_OPTIONS.map(option => (
+                      <option key={option.format} value={option.format}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="upload-quality">Quality</Label>
+                  <span className="text-xs text-slate-500">{Math.round(upload.quality * 100)}%</span>
+                </div>
+                <input
+                  id="upload-quality"
+                  type="range"
+                  min={50}
+                  max={100}
+                  value={Math.round(upload.quality * 100)}
+                  onChange={(e) => updateUpload({ quality: Number(e.target.value) / 100 })}
+                  disabled={upload.format === 'image/png'}
+                  className="w-full accent-indigo-600 disabled:opacity-50"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="payload-budget">Request budget (MB)</Label>
+                <Input
+                  id="payload-budget"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={upload.payloadBudgetMB}
+                  onChange={(e) => updateUpload({ payloadBudgetMB: Math.max(1, Number(e.target.value) || 1) })}
+                />
+                <p className="text-xs text-slate-500 mt-1">Larger requests are refused before sending. Keep it below the API server's limit.</p>
+              </div>
+            </section>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default SettingsPanel;
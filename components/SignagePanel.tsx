@@ -0,0 +1,97 @@
+import React from 'react';
+import { Eye, EyeOff, Square, Type, X } from 'lucide-react';
+import { Button, Card, Label, TextArea } from './ui';
+import { SignageSpec } from '../types';
+import { findSignageFont, SIGNAGE_FONTS, signageLines } from '../services/signageService';
+
+interface SignagePanelProps {
+  signage: SignageSpec;
+  onChange: (signage: SignageSpec) => void;
+  // True while the next drag on the photo sets the placement box
+  isPlacing: boolean;
+  onTogglePlacing: () => void;
+  showPreview: boolean;
+  onTogglePreview: () => void;
+}
+
+const SignagePanel: React.FC<SignagePanelProps> = ({
+  signage,
+  onChange,
+  isPlacing,
+  onTogglePlacing,
+  showPreview,
+  onTogglePreview,
+}) => {
+  const update = (changes: Partial<SignageSpec>) => onChange({ ...signage, ...changes });
+  const hasText = signageLines(signage).length > 0;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div>
+        <Label className="mb-0 flex items-center gap-1.5"><Type className="w-4 h-4" /> Sign text</Label>
+        <p className="text-xs text-slate-500">
+          The exact wording for the sign. It is drawn in place and sent as a guide so the model copies it letter for letter.
+        </p>
+      </div>
+      <TextArea
+        value={signage.text}
+        onChange={(e) => update({ text: e.target.value })}
+        rows={2}
+        placeholder={"Bean & Brew\nCoffee Roasters"}
+        className="font-medium"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={findSignageFont(signage.fontId).id}
+          onChange={(e) => update({ fontId: e.target.value })}
+          className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:ring-indigo-500 focus:border-indigo-500"
+          title="Lettering style"
+        >
+          {SIGNAGE_FONTS.map(font => (
+            <option key={font.id} value={font.id} style={{ fontFamily: font.family, fontWeight: font.weight }}>{font.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-slate-600" title="Lettering color">
+          <input
+            type="color"
+            value={signage.color}
+            onChange={(e) => update({ color: e.target.value.toUpperCase() })}
+            className="w-8 h-8 p-0 border border-slate-300 rounded cursor-pointer"
+          />
+          <span className="font-mono">{signage.color.toUpperCase()}</span>
+        </label>
+        <Button
+          variant={isPlacing ? 'primary' : 'outline'}
+          onClick={onTogglePlacing}
+          className="px-2.5 py-1 text-xs flex items-center gap-1.5"
+          title="Drag a box on the photo where the lettering should go"
+        >
+          <Square className="w-3 h-3" /> {isPlacing ? 'Drag on the photo...' : signage.box ? 'Move box' : 'Place on photo'}
+        </Button>
+        {signage.box && (
+          <>
+            <button
+              onClick={onTogglePreview}
+              className="p-1 text-slate-500 hover:text-indigo-600"
+              title={showPreview ? 'Hide the text preview' : 'Show the text preview'}
+            >
+              {showPreview ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => update({ box: null })}
+              className="p-1 text-slate-400 hover:text-red-600"
+              title="Remove the placement"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+      {hasText && !signage.box && (
+        <p className="text-xs text-amber-600">Place the text on the photo to send it with the next generation.</p>
+      )}
+    </Card>
+  );
+};
+
+export default SignagePanel;
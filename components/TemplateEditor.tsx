@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { TEMPLATE_VARIABLES, createTemplate, findTemplate } from '../services/templateService';
+import { Button, Card, Input, Label } from './ui';
+import { Check, Copy, Lock, Trash2, X } from 'lucide-react';
+
+interface TemplateEditorProps {
+  templates: PromptTemplate[];
+  activeTemplateId: string;
+  // Receives the full list of custom templates after any change
+  onChangeCustom: (templates: PromptTemplate[]) => void;
+  onUse: (id: string) => void;
+  onClose: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, activeTemplateId, onChangeCustom, onUse, onClose }) => {
+  const [selectedId, setSelectedId] = useState(() => findTemplate(templates, activeTemplateId).id);
+  const [draftName, setDraftName] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const selected = findTemplate(templates, selectedId);
+  const customTemplates = templates.filter(t => !t.builtIn);
+  const isDirty = !selected.builtIn && (draftName !== selected.name || draftBody !== selected.body);
+
+  useEffect(() => {
+    setDraftName(selected.name);
+    setDraftBody(selected.body);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected.id]);
+
+  const selectTemplate = (id: string) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this template?")) return;
+    setSelectedId(id);
+  };
+
+  const duplicateSelected = () => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this template?")) return;
+    const copy = createTemplate(`${selected.name} (copy)`, selected.body);
+    onChangeCustom([...customTemplates, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const saveSelected = () => {
+    const name = draftName.trim() || selected.name;
+    onChangeCustom(customTemplates.map(t => t.id === selected.id ? { ...t, name, body: draftBody } : t));
+    setDraftName(name);
+  };
+
+  const deleteSelected = () => {
+    if (!window.confirm(`Delete the template "${selected.name}"? Projects using it fall back to the general preset.`)) return;
+    onChangeCustom(customTemplates.filter(t => t.id !== selected.id));
+    setSelectedId(activeTemplateId === selected.id ? templates[0].id : activeTemplateId);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) {
+      setDraftBody(prev => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraftBody(prev => prev.slice(0, selectionStart) + token + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const renderListItem = (template: PromptTemplate) => (
+    <button
+      key={template.id}
+      onClick={() => selectTemplate(template.id)}
+      className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm ${
+        template.id === selected.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-700 hover:bg-slate-50'
+      }`}
+    >
+      <span className="flex-1 truncate">{template.name}</span>
+      {template.id === activeTemplateId && <Check className="w-4 h-4 flex-shrink-0" />}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 flex items-start justify-center p-4 sm:p-12 overflow-y-auto" onClick={onClose}>
+      <Card className="w-full max-w-5xl">
+        <div onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-4 border-b border-slate-200">
+            <h2 className="text-lg font-bold text-slate-900">Prompt Templates</h2>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr]">
+            <div className="p-3 border-b md:border-b-0 md:border-r border-slate-200 space-y-4">
+              <div>
+                <p className="px-3 mb-1 text-xs font-semibold text-slate-400 uppercase tracking-wide">Presets</p>
+                {templates.filter(t => t.builtIn).map(renderListItem)}
+              </div>
+              <div>
+                <p className="px-3 mb-1 text-xs font-semibold text-slate-400 uppercase tracking-wide">Saved</p>
+                {customTemplates.length === 0 && (
+                  <p className="px-3 text-xs text-slate-400">Duplicate a preset to make your own.</p>
+                )}
+                {customTemplates.map(renderListItem)}
+              </div>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {selected.builtIn ? (
+                <div className="flex items-center gap-2 text-sm text-slate-500">
+                  <Lock className="w-4 h-4" />
+                  <span className="font-medium text-slate-900">{selected.name}</span>
+                  · Presets are read-only. Duplicate one to edit it.
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input id="template-name" value={draftName} onChange={(e) => setDraftName(e.target.value)} />
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="template-body">Template</Label>
+                {/* Plain textarea rather than ui TextArea, which doesn't forward refs */}
+                <textarea
+                  id="template-body"
+                  ref={bodyRef}
+                  value={draftBody}
+                  onChange={(e) => setDraftBody(e.target.value)}
+                  readOnly={selected.builtIn}
+                  rows={16}
+                  className={`w-full px-3 py-2 border border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 font-mono text-xs ${
+                    selected.builtIn ? 'bg-slate-50 text-slate-600' : ''
+                  }`}
+                />
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-slate-700 mb-2">Variables {!selected.builtIn && '(click to insert)'}</p>
+                <div className="flex flex-wrap gap-2">
+                  {TEMPLATE_VARIABLES.map(variable => (
+                    <button
+                      key={variable.name}
+                      onClick={() => insertVariable(variable.name)}
+                      disabled={selected.builtIn}
+                      title={variable.description}
+                      className="px-2 py-1 rounded bg-slate-100 text-xs font-mono text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 disabled:hover:bg-slate-100 disabled:hover:text-slate-700 disabled:cursor-default"
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-slate-100">
+                {!selected.builtIn && (
+                  <Button variant="danger" onClick={deleteSelected} className="mr-auto px-3 py-1 text-sm flex items-center gap-2">
+                    <Trash2 className="w-4 h-4" /> Delete
+                  </Button>
+                )}
+                <Button variant="outline" onClick={duplicateSelected} className="px-3 py-1 text-sm flex items-center gap-2">
+                  <Copy className="w-4 h-4" /> Duplicate
+                </Button>
+                {!selected.builtIn && (
+                  <Button variant="outline" onClick={saveSelected} disabled={!isDirty} className="px-3 py-1 text-sm">
+                    Save
+                  </Button>
+                )}
+                <Button
+                  onClick={() => { if (isDirty) saveSelected(); onUse(selected.id); }}
+                  disabled={selected.id === activeTemplateId}
+                  className="px-3 py-1 text-sm"
+                >
+                  {selected.id === activeTemplateId ? 'Used by this project' : 'Use for this project'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { GenerationNode } from '../types';
+import { Card } from './ui';
+import { GitBranch, CornerDownRight, Pencil } from 'lucide-react';
+
+interface VersionTreeProps {
+  generations: GenerationNode[];
+  activeGenerationId: string | null;
+  onSelect: (id: string) => void;
+  onBranch: (id: string) => void;
+}
+
+const VersionTree: React.FC<VersionTreeProps> = ({ generations, activeGenerationId, onSelect, onBranch }) => {
+  // Versions are numbered in creation order so labels stay stable as the tree grows
+  const versionNumbers = new Map(
+    [...generations]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((node, index) => [node.id, index + 1])
+  );
+
+  const childrenOf = (parentId: string | null) =>
+    generations
+      .filter(node => node.parentId === parentId || (parentId === null && !versionNumbers.has(node.parentId || '')))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+  const renderNode = (node: GenerationNode, depth: number): React.ReactNode => {
+    const parent = generations.find(g => g.id === node.parentId);
+    const parentVariantIndex = parent ? parent.variants.findIndex(v => v.id === node.parentVariantId) : -1;
+    const thumbnail = (node.variants.find(v => v.starred) || node.variants.find(v => v.status === 'done'))?.imageUrl;
+    const isActive = node.id === activeGenerationId;
+
+    return (
+      <React.Fragment key={node.id}>
+        <div
+          onClick={() => onSelect(node.id)}
+          className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer border ${
+            isActive ? 'border-indigo-300 bg-indigo-50' : 'border-transparent hover:bg-slate-50'
+          }`}
+          style={{ marginLeft: depth * 24 }}
+        >
+          {depth > 0 && <CornerDownRight className="w-4 h-4 text-slate-300 flex-shrink-0" />}
+          <div className="w-14 h-10 flex-shrink-0 rounded overflow-hidden bg-slate-100">
+            {thumbnail && <img src={thumbnail} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-slate-900">
+              Version {versionNumbers.get(node.id)}
+              {parent && (
+                <span className="font-normal text-slate-500">
+                  {' '}· refined from v{versionNumbers.get(parent.id)}
+                  {parentVariantIndex >= 0 && ` #${parentVariantIndex + 1}`}
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-slate-500 truncate" title={node.prompt}>{node.prompt || 'No prompt'}</p>
+            <p className="text-[10px] text-slate-400">{node.model}</p>
+          </div>
+          <span className="text-xs text-slate-400 flex-shrink-0">
+            {node.variants.filter(v => v.status === 'done').length} variant(s)
+          </span>
+          <button
+            onClick={(e) => { e.stopPropagation(); onBranch(node.id); }}
+            className="p-1.5 text-slate-400 hover:text-indigo-600 flex-shrink-0"
+            title="Edit these inputs and generate a new branch"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        </div>
+        {childrenOf(node.id).map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <GitBranch className="w-4 h-4 text-slate-500" />
+        <h3 className="font-semibold text-slate-900">Version History</h3>
+      </div>
+      <div className="space-y-1">
+        {childrenOf(null).map(node => renderNode(node, 0))}
+      </div>
+    </Card>
+  );
+};
+
+export default VersionTree;
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import fs from "node:fs";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createApiServer, getClientKey, ServerConfig } from "./app";
+
+const config: ServerConfig = {
+  apiKey: 'test-key',
+  maxRequestBytes: 1024,
+  maxReferenceImages: 10,
+  rateLimitWindowMs: 60_000,
+  rateLimitMax: 20,
+  trustProxy: 0,
+  staticDir: null,
+};
+
+let server: http.Server | null = null;
+
+const start = async (overrides: Partial<ServerConfig> = {}): Promise<number> => {
+  server = createApiServer({ ...config, ...overrides });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+// Sends a body without Content-Length, the way a streaming client would
+const postChunked = (port: number, body: Buffer): Promise<{ status: number; body: any }> => {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ port, host: '127.0.0.1', path: '/api/generate', method: 'POST' }, res => {
+      let text = '';
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(text) }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+};
+
+const requestFrom = (remoteAddress: string, forwardedFor?: string) => ({
+  headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+  socket: { remoteAddress },
+}) as unknown as http.IncomingMessage;
+
+describe('getClientKey', () => {
+  it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+    expect(getClientKey(requestFrom('10.0.0.1', '1.2.3.4'), 0)).toBe('10.0.0.1');
+  });
+
+  it('uses the entry the trusted proxy appended, not one the client sent', () => {
+    expect(getClientKey(requestFrom('10.0.0.1', 'spoofed, 203.0.113.7'), 1)).toBe('203.0.113.7');
+  });
+
+  it('counts back one entry per trusted proxy', () => {
+    expect(getClientKey(requestFrom('10.0.0.1', 'spoofed, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+  });
+
+  it('falls back to the socket address without the header', () => {
+    expect(getClientKey(requestFrom('10.0.0.1'), 1)).toBe('10.0.0.1');
+  });
+});
+
+describe('createApiServer', () => {
+  it('answers an oversized streamed body with a 413', async () => {
+    const port = await start();
+    const { status, body } = await postChunked(port, Buffer.alloc(64 * 1024, 'a'));
+    expect(status).toBe(413);
+    expect(body.code).toBe('payload-too-large');
+  });
+
+  it('serves the built app when given a static folder', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storefront-dist-'));
+    fs.writeFileSync(path.join(dir, 'index.html'), '<div id="root"></div>');
+    try {
+      const port = await start({ staticDir: dir });
+      const page = await fetch(`http://127.0.0.1:${port}/`);
+      expect(page.status).toBe(200);
+      expect(page.headers.get('content-type')).toContain('text/html');
+      expect(await page.text()).toBe('<div id="root"></div>');
+
+      const escape = await fetch(`http://127.0.0.1:${port}/%2e%2e/%2e%2e/etc/passwd`);
+      expect(await escape.text()).toBe('<div id="root"></div>');
+
+      const api = await fetch(`http://127.0.0.1:${port}/api/unknown`);
+      expect(api.status).toBe(404);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
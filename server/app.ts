@@ -0,0 +1,256 @@
+import http from "node:http";
+import { GEMINI_MODELS } from "../services/providers/geminiModels";
+import { detectWithGemini, generateWithGemini, GeneratePayload } from "./gemini";
+import { createRateLimiter } from "./rateLimit";
+import { serveStatic } from "./static";
+
+export interface ServerConfig {
+  apiKey: string | undefined;
+  maxRequestBytes: number;
+  maxReferenceImages: number;
+  rateLimitWindowMs: number;
+  rateLimitMax: number;
+  // Number of trusted reverse proxies in front of the server. Each appends the
+  // address it received the request from to X-Forwarded-For; 0 ignores the header.
+  trustProxy: number;
+  // Built frontend to serve alongside the API, e.g. `dist`; null when something else serves it
+  staticDir: string | null;
+}
+
+const ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+=*$/;
+// Matches the number of region colours the editor offers
+const MAX_REGION_MASKS = 8;
+
+// `code` tells the client what kind of failure this was; it matches the
+// GenerationErrorKind values the frontend shows guidance for.
+class HttpError extends Error {
+  status: number;
+  code: string;
+  headers: Record<string, string>;
+  // Anything the model said, passed on so the client can show it
+  text: string | null;
+
+  constructor(
+    status: number,
+    message: string,
+    options: { code?: string; headers?: Record<string, string>; text?: string | null } = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.code = options.code || codeForStatus(status);
+    this.headers = options.headers || {};
+    this.text = options.text || null;
+  }
+}
+
+const codeForStatus = (status: number): string => {
+  if (status === 413) return 'payload-too-large';
+  if (status === 429) return 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'bad-request';
+};
+
+// Maps an error thrown by the Gemini SDK to the status and code we report
+const classifyGeminiError = (error: any): { status: number; code: string } => {
+  const message = String(error?.message || '');
+  if (/api key/i.test(message)) return { status: 502, code: 'missing-key' };
+  if (error?.status === 429 || /quota|resource.?exhausted/i.test(message)) return { status: 429, code: 'rate-limit' };
+  if (/safety|blocked/i.test(message)) return { status: 422, code: 'safety' };
+  if (error?.status === 413) return { status: 413, code: 'payload-too-large' };
+  return { status: 502, code: 'server' };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+// An oversized body is answered with a 413 rather than a dropped connection, so
+// the client sees why it failed instead of retrying a network error. The rest of
+// the body is read and discarded, and the connection closed once the reply is sent.
+const readBody = (req: http.IncomingMessage, limit: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `Request is too large. The limit is ${formatBytes(limit)}.`, {
+      headers: { Connection: 'close' },
+    });
+    const declared = Number(req.headers['content-length']);
+    if (declared > limit) {
+      reject(tooLarge());
+      req.resume();
+      return;
+    }
+
+    let chunks: Buffer[] = [];
+    let received = 0;
+    let rejected = false;
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) return;
+      received += chunk.length;
+      if (received > limit) {
+        rejected = true;
+        chunks = [];
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+const validateImage = (value: any, field: string) => {
+  if (!value || typeof value !== 'object') throw new HttpError(400, `${field} is required.`);
+  if (!ALLOWED_MIME_TYPES.includes(value.mimeType)) throw new HttpError(400, `${field} has an unsupported image type.`);
+  if (typeof value.data !== 'string' || !value.data || !BASE64_PATTERN.test(value.data)) {
+    throw new HttpError(400, `${field} must be base64 image data.`);
+  }
+  return { mimeType: value.mimeType as string, data: value.data as string };
+};
+
+export const validatePayload = (body: any, maxReferenceImages: number): GeneratePayload => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be a JSON object.");
+  if (!GEMINI_MODELS.some(m => m.id === body.model)) throw new HttpError(400, "Unsupported model.");
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, "prompt is required.");
+  if (typeof body.aspectRatio !== 'string') throw new HttpError(400, "aspectRatio is required.");
+  if (!Array.isArray(body.references)) throw new HttpError(400, "references must be an array.");
+  if (body.references.length > maxReferenceImages) {
+    throw new HttpError(400, `Too many reference images. The limit is ${maxReferenceImages}.`);
+  }
+  // Optional so clients from before mask regions keep working
+  const regionMasks = body.regionMasks ?? [];
+  if (!Array.isArray(regionMasks)) throw new HttpError(400, "regionMasks must be an array.");
+  if (regionMasks.length > MAX_REGION_MASKS) {
+    throw new HttpError(400, `Too many region masks. The limit is ${MAX_REGION_MASKS}.`);
+  }
+
+  return {
+    model: body.model,
+    prompt: body.prompt,
+    aspectRatio: body.aspectRatio,
+    target: validateImage(body.target, 'target'),
+    mask: validateImage(body.mask, 'mask'),
+    references: body.references.map((ref: any, i: number) => validateImage(ref, `references[${i}]`)),
+    regionMasks: regionMasks.map((mask: any, i: number) => validateImage(mask, `regionMasks[${i}]`)),
+    signageGuide: body.signageGuide == null ? null : validateImage(body.signageGuide, 'signageGuide'),
+  };
+};
+
+export const validateDetectPayload = (body: any): { image: { mimeType: string; data: string } } => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be a JSON object.");
+  return { image: validateImage(body.image, 'image') };
+};
+
+// Entries to the left of the ones our proxies appended come from the client and
+// can be anything, so the client is the entry the outermost trusted proxy added
+export const getClientKey = (req: http.IncomingMessage, trustProxy: number): string => {
+  if (trustProxy > 0) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    const client = entries[Math.max(0, entries.length - trustProxy)];
+    if (client) return client;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+export const createApiServer = (config: ServerConfig): http.Server => {
+  const limiter = createRateLimiter({ windowMs: config.rateLimitWindowMs, max: config.rateLimitMax });
+
+  // Shared by every model endpoint: rate limit, key check and JSON body.
+  // Hands back the key it checked, so handlers never see it as possibly missing.
+  const readModelRequest = async (req: http.IncomingMessage): Promise<{ apiKey: string; body: unknown }> => {
+    const limit = limiter.check(getClientKey(req, config.trustProxy));
+    if (!limit.allowed) {
+      const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+      throw new HttpError(429, `Too many requests. Try again in ${retryAfter} seconds.`, {
+        headers: { 'Retry-After': String(retryAfter) },
+      });
+    }
+    const { apiKey } = config;
+    if (!apiKey) {
+      throw new HttpError(500, "The server is missing its GEMINI_API_KEY.", { code: 'missing-key' });
+    }
+
+    const raw = await readBody(req, config.maxRequestBytes);
+    try {
+      return { apiKey, body: JSON.parse(raw) };
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON.");
+    }
+  };
+
+  const handleGenerate = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { apiKey, body } = await readModelRequest(req);
+    const payload = validatePayload(body, config.maxReferenceImages);
+
+    let result;
+    try {
+      result = await generateWithGemini(apiKey, payload);
+    } catch (error: any) {
+      console.error("Gemini API Error:", error);
+      const { status, code } = classifyGeminiError(error);
+      throw new HttpError(status, error.message || "Failed to generate design.", { code });
+    }
+    if (result.blockReason) {
+      throw new HttpError(422, `The request was blocked by the model's safety filters (${result.blockReason}).`, {
+        code: 'safety',
+        text: result.text,
+      });
+    }
+    if (result.images.length === 0) {
+      throw new HttpError(502, result.text
+        ? "The model replied with text instead of an image."
+        : "No image was generated and the model gave no explanation.", { code: 'text-only', text: result.text });
+    }
+    sendJson(res, 200, { images: result.images, text: result.text });
+  };
+
+  const handleDetect = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { apiKey, body } = await readModelRequest(req);
+    const { image } = validateDetectPayload(body);
+    let regions;
+    try {
+      regions = await detectWithGemini(apiKey, image);
+    } catch (error: any) {
+      console.error("Gemini API Error:", error);
+      const { status, code } = classifyGeminiError(error);
+      throw new HttpError(status, error.message || "Failed to detect storefront regions.", { code });
+    }
+    sendJson(res, 200, { regions });
+  };
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (url.pathname === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true });
+      } else if (url.pathname === '/api/generate') {
+        if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+        await handleGenerate(req, res);
+      } else if (url.pathname === '/api/detect') {
+        if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+        await handleDetect(req, res);
+      } else if (config.staticDir && !url.pathname.startsWith('/api/') && (req.method === 'GET' || req.method === 'HEAD')) {
+        await serveStatic(config.staticDir, url.pathname, req, res);
+      } else {
+        throw new HttpError(404, "Not found.");
+      }
+    } catch (error: any) {
+      if (!(error instanceof HttpError)) console.error("Unhandled server error:", error);
+      const status = error instanceof HttpError ? error.status : 500;
+      const headers = error instanceof HttpError ? error.headers : {};
+      if (!res.headersSent) {
+        const code = error instanceof HttpError ? error.code : 'server';
+        const text = error instanceof HttpError ? error.text : null;
+        sendJson(res, status, { error: error.message || "Internal server error.", code, text }, headers);
+      }
+    }
+  });
+};
@@ -0,0 +1,141 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { GEMINI_DETECTION_MODEL } from "../services/providers/geminiModels";
+import type { DetectedElement, DetectedRegion, GenerationRequest, InlineImage } from "../services/providers/types";
+
+export type GeneratePayload = Omit<GenerationRequest, 'variantIndex'>;
+
+export interface GenerateResponse {
+  images: string[];
+  // Commentary the model returned alongside (or instead of) the images
+  text: string | null;
+  // Set when the prompt or the output was stopped by a safety filter
+  blockReason: string | null;
+}
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+export const generateWithGemini = async (apiKey: string, payload: GeneratePayload): Promise<GenerateResponse> => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Order matters: the prompt describes the images by position
+  const parts: any[] = [
+    { text: payload.prompt },
+    { inlineData: payload.target },
+    { inlineData: payload.mask },
+    ...payload.references.map(ref => ({ inlineData: ref })),
+    ...payload.regionMasks.map(mask => ({ inlineData: mask })),
+    ...(payload.signageGuide ? [{ inlineData: payload.signageGuide }] : []),
+  ];
+
+  // Call API
+  const response = await ai.models.generateContent({
+    model: payload.model,
+    contents: {
+      parts: parts,
+    },
+    config: {
+      imageConfig: {
+          aspectRatio: payload.aspectRatio as any, 
+      }
+    }
+  });
+
+  // Extract images and any text parts
+  const images: string[] = [];
+  const textParts: string[] = [];
+  const candidates = response.candidates;
+  if (candidates && candidates.length > 0) {
+    const contentParts = candidates[0].content?.parts || [];
+    for (const part of contentParts) {
+      if (part.inlineData) {
+        images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+      } else if (part.text?.trim() && !part.thought) {
+        textParts.push(part.text.trim());
+      }
+    }
+  }
+
+  const finishReason = candidates?.[0]?.finishReason;
+  const blockReason = response.promptFeedback?.blockReason
+    || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : null);
+
+  return {
+    images,
+    text: textParts.length > 0 ? textParts.join('\n\n') : null,
+    blockReason: images.length === 0 && blockReason ? String(blockReason) : null,
+  };
+};
+
+const DETECTED_ELEMENTS: DetectedElement[] = ['facade', 'signage', 'window', 'door'];
+
+const DETECTION_PROMPT = `Find the ground-floor shopfront in this photo and outline its parts as polygons.
+Return one entry per element:
+- facade: the whole ground-floor shopfront, from pavement level up to the top of the signage band
+- signage: the signage band or fascia above the windows
+- window: each shop window, one entry per window
+- door: each entrance door, one entry per door
+Give each polygon's corners in order around its outline, as x and y coordinates normalized to 0-1000
+where (0, 0) is the top-left corner of the image. Leave out elements that aren't visible.`;
+
+const DETECTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          element: { type: Type.STRING, enum: DETECTED_ELEMENTS },
+          polygon: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+              required: ['x', 'y'],
+            },
+          },
+        },
+        required: ['element', 'polygon'],
+      },
+    },
+  },
+  required: ['regions'],
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Structured output usually matches the schema, but it is still model output,
+// so anything malformed is dropped rather than passed on
+const parseDetections = (text: string | undefined): DetectedRegion[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text || '');
+  } catch {
+    throw new Error("The model did not return valid JSON for the detected regions.");
+  }
+  if (!Array.isArray(parsed?.regions)) return [];
+  return parsed.regions
+    .filter((region: any) => DETECTED_ELEMENTS.includes(region?.element) && Array.isArray(region.polygon))
+    .map((region: any) => ({
+      element: region.element as DetectedElement,
+      polygon: region.polygon
+        .filter((p: any) => Number.isFinite(p?.x) && Number.isFinite(p?.y))
+        .map((p: any) => ({ x: clamp01(p.x / 1000), y: clamp01(p.y / 1000) })),
+    }))
+    .filter((region: DetectedRegion) => region.polygon.length >= 3);
+};
+
+export const detectWithGemini = async (apiKey: string, image: InlineImage): Promise<DetectedRegion[]> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: GEMINI_DETECTION_MODEL,
+    contents: {
+      parts: [{ text: DETECTION_PROMPT }, { inlineData: image }],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: DETECTION_SCHEMA,
+    },
+  });
+  return parseDetections(response.text);
+};
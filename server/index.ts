@@ -0,0 +1,28 @@
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { createApiServer } from "./app";
+
+// `--static dist` also serves the built frontend; see `npm start`
+const { values: args } = parseArgs({ options: { static: { type: 'string' } } });
+
+// Share the key file the frontend used to read, so local setup stays the same
+if (fs.existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const port = Number(process.env.API_PORT || 8787);
+
+const server = createApiServer({
+  apiKey: process.env.GEMINI_API_KEY,
+  maxRequestBytes: Number(process.env.MAX_REQUEST_BYTES || 20 * 1024 * 1024),
+  maxReferenceImages: Number(process.env.MAX_REFERENCE_IMAGES || 10),
+  rateLimitWindowMs: Number(process.env.RATE_LIMIT_WINDOW_MS || 60_000),
+  rateLimitMax: Number(process.env.RATE_LIMIT_MAX || 60),
+  // `true` is kept from when only a single proxy was supported
+  trustProxy: process.env.TRUST_PROXY === 'true' ? 1 : Number(process.env.TRUST_PROXY || 0),
+  staticDir: args.static || null,
+});
+
+server.listen(port, () => {
+  console.log(`StoreFront AI ${args.static ? 'app and API' : 'API'} listening on http://localhost:${port}`);
+});
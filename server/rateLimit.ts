@@ -0,0 +1,42 @@
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Fixed-window counter per client key. State lives in memory, which is enough
+// for a single server process.
+export const createRateLimiter = ({ windowMs, max }: RateLimitOptions) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  // Drop expired windows now and then so idle clients don't accumulate
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  const check = (key: string): RateLimitResult => {
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(key, window);
+    }
+    const retryAfterMs = window.startedAt + windowMs - now;
+    if (window.count >= max) {
+      return { allowed: false, remaining: 0, retryAfterMs };
+    }
+    window.count++;
+    return { allowed: true, remaining: max - window.count, retryAfterMs };
+  };
+
+  return { check };
+};
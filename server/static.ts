@@ -0,0 +1,72 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+
+// Serves the built frontend, so one process can host both the app and the API.
+// Routes live in the URL hash, so every page load asks for index.html.
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// Vite puts content-hashed files under assets/, so they never change once served
+const IMMUTABLE_PREFIX = '/assets/';
+
+const resolveFile = async (root: string, pathname: string): Promise<string | null> => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  const file = path.resolve(root, '.' + (decoded.endsWith('/') ? decoded + 'index.html' : decoded));
+  // Keep `..` segments from reaching outside the build folder
+  if (file !== root && !file.startsWith(root + path.sep)) return null;
+  const stat = await fs.promises.stat(file).catch(() => null);
+  return stat?.isFile() ? file : null;
+};
+
+export const serveStatic = async (
+  dir: string,
+  pathname: string,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> => {
+  const root = path.resolve(dir);
+  const file = await resolveFile(root, pathname) || await resolveFile(root, '/index.html');
+  if (!file) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end("Not found. Run `npm run build` first.");
+    return;
+  }
+
+  const cacheControl = pathname.startsWith(IMMUTABLE_PREFIX) && !file.endsWith('index.html')
+    ? 'public, max-age=31536000, immutable'
+    : 'no-cache';
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream',
+    'Cache-Control': cacheControl,
+  });
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(file)
+      .on('error', err => {
+        res.destroy();
+        reject(err);
+      })
+      .on('end', resolve)
+      .pipe(res);
+  });
+};
@@ -0,0 +1,106 @@
+import { AppSettings, BatchItem, PromptOptions, ReferenceItem } from "../types";
+import { generateId } from "../utils";
+import { compositeDesign, DEFAULT_FEATHER_RADIUS } from "./compositeService";
+import { detectStorefrontRegions, DesignOutput, generateStoreFrontDesign } from "./geminiService";
+import { buildRegionMasks, createDefaultRegions, rasterizeDetections } from "./maskService";
+import { PromptInput } from "./templateService";
+import { normalizeOrientation } from "./uploadService";
+import { createZip, ZipEntry } from "./zipService";
+
+// Batch mode rolls one design out across many photos: each photo gets its own
+// mask and a single design, generated a few at a time from a shared prompt.
+
+export const MAX_BATCH_PHOTOS = 50;
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export const createBatchItem = async (file: File): Promise<BatchItem> => {
+  let upright = file;
+  try {
+    upright = await normalizeOrientation(file);
+  } catch (err) {
+    console.warn("Could not normalise photo orientation", err);
+  }
+  return {
+    id: generateId(),
+    file: upright,
+    previewUrl: URL.createObjectURL(upright),
+    mask: null,
+    status: 'idle',
+    imageUrl: null,
+    notes: null,
+    error: null,
+  };
+};
+
+// The sign placement box is drawn on one photo, so it means nothing on the others.
+// Without it the signage section is left out of batch prompts.
+export const batchPromptOptions = (options: PromptOptions): PromptOptions => ({
+  ...options,
+  signage: { ...options.signage, box: null },
+});
+
+// Runs `worker` over `items` with at most `limit` in flight. Stops taking new
+// items once `signal` is aborted; items already started see the abort themselves.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
+
+export const generateBatchItem = (
+  item: BatchItem,
+  references: ReferenceItem[],
+  prompt: PromptInput,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<DesignOutput> => {
+  if (!item.mask) throw new Error("This photo has no mask yet.");
+  return generateStoreFrontDesign(item.file, item.mask, createDefaultRegions(item.mask), references, prompt, settings, signal);
+};
+
+// Detects the shopfront and turns every detected element into one mask
+export const detectBatchMask = async (file: File, settings: AppSettings, signal?: AbortSignal): Promise<string> => {
+  const detections = await detectStorefrontRegions(file, settings, signal);
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  bitmap.close();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  const regions = rasterizeDetections(ctx, createDefaultRegions(), detections);
+  const built = buildRegionMasks(canvas, regions);
+  if (!built) throw new Error("Could not build a mask from the detected shopfront.");
+  return built.union;
+};
+
+const baseName = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'photo';
+
+// Each finished design is blended back into its full-resolution photo, like the
+// single-photo download. If blending fails the raw model output is used instead.
+export const buildBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  for (const [index, item] of items.entries()) {
+    if (item.status !== 'done' || !item.imageUrl) continue;
+    const prefix = String(index + 1).padStart(2, '0');
+    let data: Blob;
+    try {
+      data = await compositeDesign(item.file, item.imageUrl, item.mask!, { featherRadius: DEFAULT_FEATHER_RADIUS });
+    } catch (err) {
+      console.warn(`Could not blend ${item.file.name}, using the raw design`, err);
+      data = await (await fetch(item.imageUrl)).blob();
+    }
+    entries.push({ name: `${prefix}-${baseName(item.file)}-design.png`, data });
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,152 @@
+import { GenerationSettings, ProjectRecord } from "../types";
+import { generateId } from "../utils";
+import { saveProject } from "./projectService";
+import { normalizeGenerationSettings } from "./settingsService";
+import { createZip, readZip, ZipEntry } from "./zipService";
+
+// Portable project bundles: a zip holding `project.json` plus every image the
+// project uses. The manifest is the stored project record with each blob
+// replaced by a reference to its file, so anything the project store keeps
+// travels with the bundle without this file having to know about it.
+
+const MANIFEST_NAME = 'project.json';
+const BUNDLE_FORMAT = 'storefront-ai-project';
+const BUNDLE_VERSION = 1;
+
+interface BundleFileRef {
+  $file: string;
+  type: string;
+  // Present when the original was a File, so its name survives the round trip
+  name?: string;
+  lastModified?: number;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  generation: GenerationSettings | null;
+  project: unknown;
+}
+
+export interface ImportedBundle {
+  record: ProjectRecord;
+  generation: GenerationSettings | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').slice(-80);
+
+const isFileRef = (value: unknown): value is BundleFileRef =>
+  typeof value === 'object' && value !== null && typeof (value as BundleFileRef).$file === 'string';
+
+// Swaps every blob for a file reference. A blob used in several places (the
+// target photo is shared by the generations made from it) is stored once.
+const encodeBlobs = (record: ProjectRecord): { manifest: unknown; files: ZipEntry[] } => {
+  const files: ZipEntry[] = [];
+  const paths = new Map<Blob, string>();
+
+  const encode = (value: unknown, folder: string): unknown => {
+    if (value instanceof Blob) {
+      let path = paths.get(value);
+      if (!path) {
+        const index = files.length + 1;
+        path = value instanceof File && value.name
+          ? `${folder}/${index}-${safeFileName(value.name)}`
+          : `${folder}/${index}.${EXTENSIONS[value.type] || 'bin'}`;
+        paths.set(value, path);
+        files.push({ name: path, data: value });
+      }
+      const ref: BundleFileRef = { $file: path, type: value.type };
+      if (value instanceof File) {
+        ref.name = value.name;
+        ref.lastModified = value.lastModified;
+      }
+      return ref;
+    }
+    if (Array.isArray(value)) return value.map(item => encode(item, folder));
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encode(item, folder)]));
+    }
+    return value;
+  };
+
+  // Files are grouped by the part of the project they belong to
+  const manifest = Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, encode(value, key === 'targetImage' || key === 'maskImage' ? 'photo' : key)])
+  );
+  return { manifest, files };
+};
+
+const decodeBlobs = (value: unknown, files: Map<string, Blob>): unknown => {
+  if (isFileRef(value)) {
+    const data = files.get(value.$file);
+    if (!data) throw new Error(`The bundle is missing "${value.$file}".`);
+    return value.name !== undefined
+      ? new File([data], value.name, { type: value.type, lastModified: value.lastModified })
+      : new Blob([data], { type: value.type });
+  }
+  if (Array.isArray(value)) return value.map(item => decodeBlobs(item, files));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeBlobs(item, files)]));
+  }
+  return value;
+};
+
+export const exportProjectBundle = async (record: ProjectRecord, generation: GenerationSettings | null): Promise<Blob> => {
+  const { manifest, files } = encodeBlobs(record);
+  const bundle: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    generation,
+    project: manifest,
+  };
+  const json = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  return createZip([{ name: MANIFEST_NAME, data: json }, ...files]);
+};
+
+// Reads a bundle and saves it as a new project, so importing never overwrites
+// existing work, even when the same bundle is imported twice.
+export const importProjectBundle = async (archive: Blob): Promise<ImportedBundle> => {
+  const entries = await readZip(archive);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_NAME);
+  if (!manifestEntry) throw new Error("This zip is not a StoreFront AI project bundle.");
+
+  let bundle: BundleManifest;
+  try {
+    bundle = JSON.parse(await manifestEntry.data.text());
+  } catch {
+    throw new Error("The project bundle's manifest could not be read.");
+  }
+  if (bundle.format !== BUNDLE_FORMAT) throw new Error("This zip is not a StoreFront AI project bundle.");
+  if (bundle.version > BUNDLE_VERSION) throw new Error("This bundle was made by a newer version of the app.");
+
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+  const project = decodeBlobs(bundle.project, files) as ProjectRecord;
+  if (!Array.isArray(project.references) || !Array.isArray(project.generations)) {
+    throw new Error("The project bundle is incomplete.");
+  }
+
+  const now = Date.now();
+  const record: ProjectRecord = {
+    ...project,
+    id: generateId(),
+    name: project.name || 'Imported project',
+    createdAt: project.createdAt || now,
+    updatedAt: now,
+  };
+  await saveProject(record);
+  return {
+    record,
+    generation: bundle.generation ? normalizeGenerationSettings(bundle.generation) : null,
+  };
+};
+
+export const bundleFileName = (name: string) => `${safeFileName(name.trim()) || 'storefront'}.storefront.zip`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { MaskRegion } from '../types';
+import { buildBlendWeights, coverCrop } from './compositeService';
+import { labelPixels, maskPixels } from './maskService';
+
+// A greyscale mask one pixel high, as RGBA
+const mask = (...greys: number[]) => new Uint8ClampedArray(greys.flatMap(grey => [grey, grey, grey, 255]));
+
+describe('buildBlendWeights', () => {
+  it('uses the grey level as the weight without feathering', () => {
+    const weights = buildBlendWeights(mask(0, 51, 204, 255), 4, 1, 0);
+    [0, 0.2, 0.8, 1].forEach((expected, x) => expect(weights[x]).toBeCloseTo(expected));
+  });
+
+  it('never blends outside the mask when feathering', () => {
+    const weights = buildBlendWeights(mask(0, 0, 255, 255, 255, 255, 255, 255, 0, 0), 10, 1, 2);
+    expect(weights[0]).toBe(0);
+    expect(weights[1]).toBe(0);
+    expect(weights[8]).toBe(0);
+    expect(weights[9]).toBe(0);
+  });
+
+  it('feathers hard edges inward', () => {
+    const row = Array.from({ length: 21 }, (_, x) => x >= 5 && x < 16 ? 255 : 0);
+    const weights = buildBlendWeights(mask(...row), 21, 1, 3);
+    expect(weights[5]).toBeLessThan(weights[7]);
+    expect(weights[7]).toBeLessThanOrEqual(weights[10]);
+    expect(weights[10]).toBeGreaterThan(0.9);
+  });
+
+  it('keeps soft edges from the editor no stronger than their grey', () => {
+    const row = [0, 64, 128, 255, 255, 255, 255, 255, 255, 255];
+    const weights = buildBlendWeights(mask(...row), row.length, 1, 1);
+    // Weights are single precision, hence the small allowance
+    row.forEach((grey, x) => expect(weights[x]).toBeLessThanOrEqual(grey / 255 + 1e-6));
+  });
+});
+
+describe('coverCrop', () => {
+  it('trims the sides of a result wider than the photo', () => {
+    // A 3:2 photo generated at 16:9
+    expect(coverCrop(1600, 900, 1200, 800)).toEqual({ x: 125, y: 0, width: 1350, height: 900 });
+  });
+
+  it('trims the top and bottom of a result taller than the photo', () => {
+    // A 3:2 photo generated at 4:3
+    expect(coverCrop(1200, 900, 1500, 1000)).toEqual({ x: 0, y: 50, width: 1200, height: 800 });
+  });
+
+  it('uses the whole result when the ratios match', () => {
+    expect(coverCrop(1024, 768, 2048, 1536)).toEqual({ x: 0, y: 0, width: 1024, height: 768 });
+  });
+});
+
+describe('mask export and compositing', () => {
+  it('blends a feathered overlay edge gradually instead of dropping it', () => {
+    const regions: MaskRegion[] = [{ id: 'a', name: 'Signage', color: '#EF4444', instructions: '', mask: null }];
+    // A painted pixel, a half-feathered one and an unpainted one
+    const overlay = new Uint8ClampedArray([239, 68, 68, 255, 239, 68, 68, 128, 0, 0, 0, 0]);
+    const exported = maskPixels(labelPixels(overlay, regions), overlay, label => label > 0);
+
+    const weights = buildBlendWeights(exported, 3, 1, 0);
+    expect(weights[0]).toBe(1);
+    expect(weights[1]).toBeCloseTo(128 / 255);
+    expect(weights[2]).toBe(0);
+  });
+});
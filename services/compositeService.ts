@@ -0,0 +1,150 @@
+import { loadImage } from "../utils";
+
+// Post-processing for generated designs. The model returns an image at whatever
+// size its aspect ratio implies and may drift outside the mask, so the result is
+// cropped and scaled onto the original photo and only the masked region is blended back in.
+
+export const DEFAULT_FEATHER_RADIUS = 8;
+export const MAX_FEATHER_RADIUS = 50;
+
+export interface CompositeOptions {
+  // Width in original-photo pixels of the soft edge. The falloff stays inside
+  // the mask, so pixels outside it always come from the original untouched.
+  featherRadius: number;
+}
+
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The request sends the whole photo and asks for the nearest supported aspect
+// ratio, so the result covers the photo's frame with the excess split evenly
+// between both sides. This is the centred part of it that matches the photo.
+export const coverCrop = (sourceWidth: number, sourceHeight: number, width: number, height: number): SourceRect => {
+  const scale = Math.min(sourceWidth / width, sourceHeight / height);
+  const cropWidth = width * scale;
+  const cropHeight = height * scale;
+  return {
+    x: (sourceWidth - cropWidth) / 2,
+    y: (sourceHeight - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+const getPixels = (img: HTMLImageElement, width: number, height: number, crop?: SourceRect): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  if (crop) {
+    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  } else {
+    ctx.drawImage(img, 0, 0, width, height);
+  }
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// One horizontal then vertical pass of a running-sum box blur
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const temp = new Float32Array(values.length);
+  const windowSize = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) {
+      sum += values[row + Math.min(width - 1, Math.max(0, x))];
+    }
+    for (let x = 0; x < width; x++) {
+      temp[row + x] = sum / windowSize;
+      sum += values[row + Math.min(width - 1, x + radius + 1)] - values[row + Math.max(0, x - radius)];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) {
+      sum += temp[Math.min(height - 1, Math.max(0, y)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      values[y * width + x] = sum / windowSize;
+      sum += temp[Math.min(height - 1, y + radius + 1) * width + x] - temp[Math.max(0, y - radius) * width + x];
+    }
+  }
+};
+
+// Builds per-pixel blend weights (0..1) from the mask's grey level, so soft
+// edges painted or feathered in the editor blend gradually. The composite
+// feather then softens the hard edges too, without reaching outside the mask.
+export const buildBlendWeights = (maskPixels: Uint8ClampedArray, width: number, height: number, featherRadius: number): Float32Array => {
+  const coverage = new Float32Array(width * height);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = maskPixels[i * 4] / 255;
+  }
+  if (featherRadius <= 0) return coverage;
+
+  // Three box blurs approximate a gaussian. The blurred value is 0.5 on the mask
+  // edge, so remapping 0.5..1 to 0..1 keeps the whole falloff inside the mask.
+  const inside = Float32Array.from(coverage, value => value > 0 ? 1 : 0);
+  const falloff = new Float32Array(inside);
+  const passRadius = Math.max(1, Math.round(featherRadius / 1.5));
+  for (let pass = 0; pass < 3; pass++) boxBlur(falloff, width, height, passRadius);
+  const weights = new Float32Array(coverage.length);
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = inside[i] ? Math.min(coverage[i], Math.max(0, falloff[i] * 2 - 1)) : 0;
+  }
+  return weights;
+};
+
+export const compositeDesign = async (
+  original: Blob,
+  resultUrl: string,
+  maskUrl: string,
+  options: CompositeOptions
+): Promise<Blob> => {
+  const originalUrl = URL.createObjectURL(original);
+  try {
+    const [originalImg, resultImg, maskImg] = await Promise.all([
+      loadImage(originalUrl),
+      loadImage(resultUrl),
+      loadImage(maskUrl),
+    ]);
+
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+    const originalPixels = getPixels(originalImg, width, height);
+    // Cropped the same way the comparison viewer shows it
+    const resultPixels = getPixels(
+      resultImg, width, height, coverCrop(resultImg.naturalWidth, resultImg.naturalHeight, width, height)
+    );
+    const weights = buildBlendWeights(getPixels(maskImg, width, height), width, height, options.featherRadius);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+
+    const output = ctx.createImageData(width, height);
+    for (let p = 0; p < weights.length; p++) {
+      const w = weights[p];
+      const i = p * 4;
+      output.data[i] = originalPixels[i] + (resultPixels[i] - originalPixels[i]) * w;
+      output.data[i + 1] = originalPixels[i + 1] + (resultPixels[i + 1] - originalPixels[i + 1]) * w;
+      output.data[i + 2] = originalPixels[i + 2] + (resultPixels[i + 2] - originalPixels[i + 2]) * w;
+      output.data[i + 3] = 255;
+    }
+    ctx.putImageData(output, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to export composite image.")), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(originalUrl);
+  }
+};
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings, MaskRegion, ReferenceItem } from '../types';
+import { generateWithGemini } from '../server/gemini';
+import { generateStoreFrontDesign, getBestAspectRatio } from './geminiService';
+import { DEFAULT_SETTINGS } from './settingsService';
+import { DEFAULT_SIGNAGE } from './signageService';
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPT_OPTIONS, PromptInput } from './templateService';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+  Type: { OBJECT: 'OBJECT', ARRAY: 'ARRAY', STRING: 'STRING', NUMBER: 'NUMBER' },
+}));
+
+// Re-encoding needs a real canvas, which jsdom doesn't have. The target comes
+// back as a 1600x1200 image and masks pass through unchanged.
+vi.mock('./uploadService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./uploadService')>(),
+  encodeForRequest: vi.fn(async () => ({ image: { mimeType: 'image/jpeg', data: 'VEFSR0VU' }, width: 1600, height: 1200 })),
+  resizeMask: vi.fn(async (dataUrl: string) => ({ mimeType: 'image/png', data: dataUrl.split(',')[1] })),
+}));
+
+vi.mock('./signageService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./signageService')>(),
+  renderSignageGuide: vi.fn(() => ({ mimeType: 'image/png', data: 'U0lHTkFHRQ==' })),
+}));
+
+const settings: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  generation: { ...DEFAULT_SETTINGS.generation, maxRetries: 0 },
+};
+
+const target = new File(['target'], 'shop.jpg', { type: 'image/jpeg' });
+const mask = 'data:image/png;base64,TUFTSw==';
+
+const reference = (id: string, contents: string, overrides: Partial<ReferenceItem> = {}): ReferenceItem => ({
+  id,
+  file: new File([contents], `${id}.png`, { type: 'image/png' }),
+  previewUrl: '',
+  description: '',
+  roles: [],
+  weight: 'moderate',
+  crop: null,
+  palette: null,
+  pinnedColors: [],
+  ...overrides,
+});
+
+const region = (id: string, name: string, instructions: string, mask: string | null): MaskRegion => ({
+  id, name, color: '#EF4444', instructions, mask,
+});
+
+const prompt = (overrides: Partial<PromptInput['options']> = {}): PromptInput => ({
+  userRequest: 'Dark green timber frontage with brass details',
+  template: BUILT_IN_TEMPLATES[0],
+  options: { ...DEFAULT_PROMPT_OPTIONS, shopName: 'Maison Lune', ...overrides },
+});
+
+// Stands in for the API server: the provider's request goes straight to the Gemini handler
+const respondLikeServer = async (_url: RequestInfo | URL, init?: RequestInit) => {
+  const result = await generateWithGemini('test-key', JSON.parse(String(init?.body)));
+  if (result.images.length === 0) {
+    return new Response(JSON.stringify({ error: 'No image', code: 'text-only', text: result.text }), { status: 502 });
+  }
+  return new Response(JSON.stringify({ images: result.images, text: result.text }), { status: 200 });
+};
+
+const imageResponse = (text?: string) => ({
+  candidates: [{
+    content: {
+      parts: [
+        ...(text ? [{ text }] : []),
+        { inlineData: { mimeType: 'image/png', data: 'UkVTVUxU' } },
+      ],
+    },
+    finishReason: 'STOP',
+  }],
+});
+
+const sentParts = () => generateContent.mock.calls[0][0].contents.parts;
+
+describe('getBestAspectRatio', () => {
+  it.each([
+    [1000, 1000, '1:1'],
+    [1200, 900, '4:3'],
+    [900, 1200, '3:4'],
+    [1920, 1080, '16:9'],
+    [1080, 1920, '9:16'],
+    [4000, 1000, '16:9'],
+    [1000, 4000, '9:16'],
+    [1100, 1000, '1:1'],
+  ])('maps %ix%i to %s', (width, height, expected) => {
+    expect(getBestAspectRatio(width, height)).toBe(expected);
+  });
+});
+
+describe('generateStoreFrontDesign', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.stubGlobal('fetch', vi.fn(respondLikeServer));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('when rate limited', () => {
+    const retrying: AppSettings = {
+      ...settings,
+      generation: { ...settings.generation, maxRetries: 1, timeoutSeconds: 90 },
+    };
+    const rateLimited = (retryAfterSeconds: number) => new Response(
+      JSON.stringify({ error: 'Too many requests.' }),
+      { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      generateContent.mockResolvedValue(imageResponse());
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('waits out a Retry-After shorter than the request timeout', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(rateLimited(45));
+
+      const result = generateStoreFrontDesign(target, mask, [], [], prompt(), retrying);
+      await vi.advanceTimersByTimeAsync(44_000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      await expect(result).resolves.toMatchObject({ imageUrl: 'data:image/png;base64,UkVTVUxU' });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up when the server asks for a longer wait than the timeout', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(rateLimited(120));
+
+      await expect(generateStoreFrontDesign(target, mask, [], [], prompt(), retrying))
+        .rejects.toMatchObject({ kind: 'rate-limit' });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('sends the prompt, target and mask to the configured model', async () => {
+    generateContent.mockResolvedValue(imageResponse('A warm, classic frontage.'));
+
+    const result = await generateStoreFrontDesign(target, mask, [], [], prompt(), settings);
+
+    expect(result).toEqual({ imageUrl: 'data:image/png;base64,UkVTVUxU', notes: 'A warm, classic frontage.' });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(settings.generation.model);
+    expect(request.config.imageConfig.aspectRatio).toBe('4:3');
+    expect(sentParts()).toEqual([
+      { text: expect.any(String) },
+      { inlineData: { mimeType: 'image/jpeg', data: 'VEFSR0VU' } },
+      { inlineData: { mimeType: 'image/png', data: 'TUFTSw==' } },
+    ]);
+
+    const text: string = sentParts()[0].text;
+    expect(text).toContain('USER REQUEST: "Dark green timber frontage with brass details"');
+    expect(text).toContain('SHOP NAME: Maison Lune');
+    expect(text).toContain('MASK ADHERENCE');
+    // The exported mask keeps soft edges as grey, so the prompt has to say what grey means
+    expect(text).toContain('Grey = soft edge');
+    expect(text).toContain('GREY AREAS');
+    expect(text).toContain('None provided.');
+    expect(text).not.toContain('{{');
+  });
+
+  it('sends references after the mask and describes each one in order', async () => {
+    generateContent.mockResolvedValue(imageResponse());
+    const references = [
+      reference('brick', 'brick', { roles: ['material'], weight: 'strong', description: 'Reclaimed brick' }),
+      reference('sign', 'sign', { pinnedColors: ['#1F3D2B'] }),
+    ];
+
+    await generateStoreFrontDesign(target, mask, [], references, prompt(), settings);
+
+    const parts = sentParts();
+    expect(parts.slice(1).map((part: any) => part.inlineData.data)).toEqual(['VEFSR0VU', 'TUFTSw==', btoa('brick'), btoa('sign')]);
+    const text: string = parts[0].text;
+    expect(text).toContain('- Ref 1 (strong influence, follow it closely):');
+    expect(text).toContain('Take ONLY surface materials and textures.');
+    expect(text).toContain('Notes: Reclaimed brick');
+    expect(text).toContain('- Ref 2 (moderate influence):');
+    expect(text).toContain('#1F3D2B (from Ref 2)');
+    expect(text.indexOf('- Ref 1')).toBeLessThan(text.indexOf('- Ref 2'));
+  });
+
+  it('adds region masks after the references and the signage guide last', async () => {
+    generateContent.mockResolvedValue(imageResponse());
+    const regions = [
+      region('r1', 'Signage', 'Gold leaf lettering', 'data:image/png;base64,UkVHSU9OMQ=='),
+      region('r2', 'Door', '', 'data:image/png;base64,UkVHSU9OMg=='),
+      region('r3', 'Awning', 'Striped canvas', null),
+    ];
+    const signage = { ...DEFAULT_SIGNAGE, text: 'MAISON LUNE', box: { x: 0.1, y: 0.1, width: 0.6, height: 0.1 } };
+
+    await generateStoreFrontDesign(target, mask, regions, [reference('brick', 'brick')], prompt({ signage }), settings);
+
+    const parts = sentParts();
+    expect(parts.slice(1).map((part: any) => part.inlineData.data)).toEqual([
+      'VEFSR0VU', 'TUFTSw==', btoa('brick'), 'UkVHSU9OMQ==', 'UkVHSU9OMg==', 'U0lHTkFHRQ==',
+    ]);
+    const text: string = parts[0].text;
+    expect(text).toContain('- Region mask 1, "Signage": Gold leaf lettering');
+    expect(text).toContain('- Region mask 2, "Door": Renovate in keeping with the user request.');
+    expect(text).not.toContain('Awning');
+    expect(text).toContain('The sign must read exactly: "MAISON LUNE"');
+  });
+
+  it('sends no separate region mask when only one region is painted', async () => {
+    generateContent.mockResolvedValue(imageResponse());
+    const regions = [region('r1', 'Signage', 'Gold leaf lettering', mask)];
+
+    await generateStoreFrontDesign(target, mask, regions, [], prompt(), settings);
+
+    expect(sentParts()).toHaveLength(3);
+    expect(sentParts()[0].text).toContain('The whole white area of the mask is "Signage": Gold leaf lettering');
+  });
+
+  it('fails with the model text when no image comes back', async () => {
+    generateContent.mockResolvedValue({
+      candidates: [{ content: { parts: [{ text: 'I cannot edit this photo.' }] }, finishReason: 'STOP' }],
+    });
+
+    await expect(generateStoreFrontDesign(target, mask, [], [], prompt(), settings)).rejects.toMatchObject({
+      kind: 'text-only',
+      modelText: 'I cannot edit this photo.',
+    });
+  });
+
+  it('refuses requests over the payload budget without calling the model', async () => {
+    const tiny: AppSettings = { ...settings, upload: { ...settings.upload, payloadBudgetMB: 0 } };
+
+    await expect(generateStoreFrontDesign(target, mask, [], [], prompt(), tiny)).rejects.toMatchObject({
+      kind: 'payload-too-large',
+    });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
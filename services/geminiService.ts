@@ -1,11 +1,18 @@
-import { GoogleGenAI } from "@google/genai";
-import { ReferenceItem } from "../types";
-import { fileToBase64 } from "../utils";
-
-const MODEL_NAME = 'gemini-2.5-flash-image';
+import {
+  AppSettings, CropRegion, GenerationFailure, GenerationSettings, MaskRegion, ReferenceItem, ReferenceRole, ReferenceWeight,
+  SignageSpec, UploadSettings,
+} from "../types";
+import { fileToBase64, loadImage } from "../utils";
+import {
+  DetectedRegion, getProvider, GenerationError, GenerationMetadata, GenerationRequest, GenerationResult, ImageGenerationProvider,
+  InlineImage, isRetryable, toGenerationError,
+} from "./providers";
+import { findSignageFont, hasSignage, renderSignageGuide, signageLines } from "./signageService";
+import { PromptInput, renderPrompt } from "./templateService";
+import { encodeForRequest, formatBytes, resizeMask } from "./uploadService";
 
 // Helper to determine the closest supported aspect ratio
-const getBestAspectRatio = (width: number, height: number): string => {
+export const getBestAspectRatio = (width: number, height: number): string => {
   const ratio = width / height;
   const supportedRatios = [
     { str: "1:1", val: 1.0 },
@@ -21,134 +28,410 @@ const getBestAspectRatio = (width: number, height: number): string => {
   }).str;
 };
 
-// Helper to get image dimensions from base64
-const getImageDimensions = (base64Data: string, mimeType: string): Promise<{width: number, height: number}> => {
+export const MIN_VARIANTS = 1;
+export const MAX_VARIANTS = 6;
+
+export const REFERENCE_ROLES: { role: ReferenceRole; label: string; instruction: string }[] = [
+  { role: 'material', label: 'Material', instruction: 'surface materials and textures' },
+  { role: 'palette', label: 'Color palette', instruction: 'the color palette' },
+  { role: 'signage', label: 'Signage', instruction: 'the signage style (lettering, sign shape and mounting)' },
+  { role: 'lighting', label: 'Lighting', instruction: 'the lighting (fixtures, color temperature and how the facade is lit)' },
+  { role: 'awning', label: 'Awning', instruction: 'the awning or canopy design' },
+  { role: 'mood', label: 'Overall mood', instruction: 'the overall mood and style' },
+];
+
+export const REFERENCE_WEIGHTS: { weight: ReferenceWeight; label: string; instruction: string }[] = [
+  { weight: 'subtle', label: 'Subtle', instruction: 'subtle influence, treat it as a loose hint' },
+  { weight: 'moderate', label: 'Moderate', instruction: 'moderate influence' },
+  { weight: 'strong', label: 'Strong', instruction: 'strong influence, follow it closely' },
+];
+
+export const DEFAULT_REFERENCE_WEIGHT: ReferenceWeight = 'moderate';
+
+// Describes each reference by what to take from it, so the model stops copying whole scenes
+const buildReferenceSection = (references: ReferenceItem[]): string => {
+  if (references.length === 0) return "None provided.";
+
+  return references.map((ref, index) => {
+    const weight = REFERENCE_WEIGHTS.find(w => w.weight === ref.weight) || REFERENCE_WEIGHTS[1];
+    const roles = REFERENCE_ROLES.filter(r => ref.roles.includes(r.role)).map(r => r.instruction);
+    const lines = [`- Ref ${index + 1} (${weight.instruction}):`];
+    if (roles.length > 0) {
+      lines.push(`  Take ONLY ${roles.join("; ")}. Do not copy the layout, buildings or objects shown in it.`);
+    }
+    if (ref.crop) {
+      lines.push("  This image is a crop of the relevant detail. Use it as a sample, not as a scene.");
+    }
+    if (ref.description.trim()) {
+      lines.push(`  Notes: ${ref.description.trim()}`);
+    }
+    return lines.join("\n");
+  }).join("\n");
+};
+
+const toPixelRegion = (crop: CropRegion, width: number, height: number) => {
+  const x = Math.round(crop.x * width);
+  const y = Math.round(crop.y * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+// Regions with something painted in them, in the order their masks are sent
+const paintedRegions = (regions: MaskRegion[]): MaskRegion[] => regions.filter(r => r.mask);
+
+// Gives every region its own instructions so details stay where they belong.
+// A single painted region is the whole mask, so no separate masks are sent for it.
+const buildRegionSection = (regions: MaskRegion[]): string | null => {
+  const painted = paintedRegions(regions);
+  const describe = (region: MaskRegion) =>
+    region.instructions.trim() || "Renovate in keeping with the user request.";
+
+  if (painted.length === 0) return null;
+  if (painted.length === 1) {
+    const [region] = painted;
+    if (!region.instructions.trim()) return null;
+    return `The whole white area of the mask is "${region.name || 'Region 1'}": ${describe(region)}`;
+  }
+  return [
+    "The region masks follow the reference images, in this order. Keep each region's design inside its own mask; " +
+      "materials, colors and lettering meant for one region must not spill into another.",
+    ...painted.map((region, index) => `- Region mask ${index + 1}, "${region.name || `Region ${index + 1}`}": ${describe(region)}`),
+  ].join("\n");
+};
+
+// The wording is spelled out in the prompt as well as drawn in the guide image,
+// so the model has both the exact characters and their look and placement
+const buildSignageSection = (signage: SignageSpec): string | null => {
+  if (!hasSignage(signage)) return null;
+  const lines = signageLines(signage);
+  const font = findSignageFont(signage.fontId);
+  return [
+    lines.length === 1
+      ? `The sign must read exactly: "${lines[0]}"`
+      : `The sign must read exactly, on ${lines.length} lines:\n${lines.map(line => `"${line}"`).join("\n")}`,
+    "- Reproduce this wording verbatim, letter for letter, with the same capitalization, punctuation and line breaks. " +
+      "Do not translate, abbreviate, add or drop any characters, and put no other text on the sign.",
+    `- Lettering: ${font.description} in ${signage.color.toUpperCase()}.`,
+    "- Placement: the SIGNAGE GUIDE (the last image) shows the lettering at its size and position in the photo. " +
+      "Match it, following the facade's perspective. Its plain background is only a guide and must not appear in the design.",
+  ].join("\n");
+};
+
+// Pinned swatches become an explicit constraint with their exact hex values
+const buildColorConstraint = (references: ReferenceItem[], pinnedTargetColors: string[]): string | null => {
+  const colors = [
+    ...pinnedTargetColors.map(hex => `${hex} (keep from the current facade)`),
+    ...references.flatMap((ref, index) => ref.pinnedColors.map(hex => `${hex} (from Ref ${index + 1})`)),
+  ];
+  if (colors.length === 0) return null;
+  return `EXACT COLORS: Use these exact colors in the renovated area, matching the hex values as closely as the scene lighting allows: ${colors.join(", ")}.`;
+};
+
+// Cuts the crop region out of a reference so only the relevant detail is sent
+const encodeReference = async (ref: ReferenceItem): Promise<{ mimeType: string; data: string }> => {
+  if (!ref.crop) {
+    return { mimeType: ref.file.type, data: await fileToBase64(ref.file) };
+  }
+
+  const url = URL.createObjectURL(ref.file);
+  try {
+    const img = await loadImage(url);
+    const region = toPixelRegion(ref.crop, img.naturalWidth, img.naturalHeight);
+    const canvas = document.createElement('canvas');
+    canvas.width = region.width;
+    canvas.height = region.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+    const mimeType = ref.file.type === "image/jpeg" ? "image/jpeg" : "image/png";
+    return { mimeType, data: canvas.toDataURL(mimeType).split(",")[1] };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export interface VariantOutcome {
+  imageUrl: string | null;
+  metadata: GenerationMetadata | null;
+  error: GenerationFailure | null;
+  // The model's commentary, or its explanation when no image came back
+  notes: string | null;
+}
+
+export interface DesignOutput {
+  imageUrl: string;
+  notes: string | null;
+}
+
+type PreparedRequest = Omit<GenerationRequest, 'variantIndex'>;
+
+// Base64 characters are what travel in the JSON body, so they are what counts
+// towards the payload budget and the server's request limit.
+export interface PayloadEstimate {
+  target: number;
+  // The union mask plus any region masks and the signage guide
+  mask: number;
+  references: number;
+  total: number;
+}
+
+interface RequestImages {
+  target: InlineImage;
+  mask: InlineImage;
+  references: InlineImage[];
+  regionMasks: InlineImage[];
+  signageGuide: InlineImage | null;
+  aspectRatio: string;
+  payload: PayloadEstimate;
+}
+
+// The target is scaled to the upload settings and the masks and guide are scaled to match it
+const encodeRequestImages = async (
+  targetFile: File,
+  maskBase64: string,
+  regions: MaskRegion[],
+  signage: SignageSpec,
+  references: ReferenceItem[],
+  upload: UploadSettings
+): Promise<RequestImages> => {
+  const target = await encodeForRequest(targetFile, upload);
+  const aspectRatio = getBestAspectRatio(target.width, target.height);
+  console.log(`Request image: ${target.width}x${target.height}. Using Aspect Ratio: ${aspectRatio}`);
+
+  const painted = paintedRegions(regions);
+  const [mask, referenceImages, regionMasks] = await Promise.all([
+    resizeMask(maskBase64, target.width, target.height),
+    Promise.all(references.map(encodeReference)),
+    painted.length > 1
+      ? Promise.all(painted.map(region => resizeMask(region.mask!, target.width, target.height)))
+      : Promise.resolve([]),
+  ]);
+  const signageGuide = hasSignage(signage) ? renderSignageGuide(signage, target.width, target.height) : null;
+
+  const payload = {
+    target: target.image.data.length,
+    mask: mask.data.length + regionMasks.reduce((sum, m) => sum + m.data.length, 0) + (signageGuide?.data.length ?? 0),
+    references: referenceImages.reduce((sum, ref) => sum + ref.data.length, 0),
+    total: 0,
+  };
+  payload.total = payload.target + payload.mask + payload.references;
+
+  return { target: target.image, mask, references: referenceImages, regionMasks, signageGuide, aspectRatio, payload };
+};
+
+export const estimateRequestSize = async (
+  targetFile: File,
+  maskBase64: string,
+  regions: MaskRegion[],
+  signage: SignageSpec,
+  references: ReferenceItem[],
+  upload: UploadSettings
+): Promise<PayloadEstimate> => {
+  const { payload } = await encodeRequestImages(targetFile, maskBase64, regions, signage, references, upload);
+  return payload;
+};
+
+// Builds the prompt and encodes the images once so they can be reused for every variant
+const prepareRequest = async (
+  targetFile: File,
+  maskBase64: string,
+  regions: MaskRegion[],
+  references: ReferenceItem[],
+  prompt: PromptInput,
+  settings: AppSettings
+): Promise<PreparedRequest> => {
+  const images = await encodeRequestImages(targetFile, maskBase64, regions, prompt.options.signage, references, settings.upload);
+  const budget = settings.upload.payloadBudgetMB * 1024 * 1024;
+  if (images.payload.total > budget) {
+    throw new GenerationError(
+      'payload-too-large',
+      `This request is ${formatBytes(images.payload.total)}, over the ${formatBytes(budget)} budget. ` +
+      "Remove some references or lower the maximum image size in Settings."
+    );
+  }
+
+  // Build the instruction text from the project's template. Providers send the
+  // images after it as target, mask, references, region masks and signage guide, which the templates describe by position.
+  const promptText = renderPrompt(prompt, {
+    references: buildReferenceSection(references),
+    regions: buildRegionSection(regions),
+    signage: buildSignageSection(prompt.options.signage),
+    colorConstraint: buildColorConstraint(references, prompt.options.pinnedTargetColors),
+  });
+
+  return {
+    model: settings.generation.model,
+    prompt: promptText,
+    target: images.target,
+    mask: images.mask,
+    references: images.references,
+    regionMasks: images.regionMasks,
+    signageGuide: images.signageGuide,
+    aspectRatio: images.aspectRatio,
+  };
+};
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 15000;
+
+const backoffDelay = (attempt: number, error: GenerationError): number => {
+  if (error.retryAfterMs !== null) return error.retryAfterMs;
+  const exponential = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  // Full jitter, so concurrent variants don't retry in lockstep
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve({ width: img.width, height: img.height });
-    img.onerror = (e) => reject(e);
-    img.src = `data:${mimeType};base64,${base64Data}`;
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
   });
 };
 
+// Runs one provider call with a per-attempt timeout, retrying transient failures
+// (rate limits, network errors, timeouts, server errors) with exponential backoff.
+// Errors always come out as GenerationError; an aborted `signal` becomes 'cancelled'.
+const withRetry = async <T>(
+  run: (attemptSignal: AbortSignal) => Promise<T>,
+  generation: GenerationSettings,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort(signal!.reason);
+    signal?.addEventListener('abort', abortAttempt, { once: true });
+    const timer = setTimeout(() => attemptController.abort(
+      new GenerationError('timeout', `The model did not respond within ${generation.timeoutSeconds} seconds.`)
+    ), generation.timeoutSeconds * 1000);
+
+    try {
+      signal?.throwIfAborted();
+      return await run(attemptController.signal);
+    } catch (err) {
+      if (signal?.aborted) throw new GenerationError('cancelled', "Generation was cancelled.");
+      const error = toGenerationError(err);
+      const delay = backoffDelay(attempt, error);
+      // A Retry-After longer than one attempt may take isn't worth waiting out
+      if (attempt >= generation.maxRetries || !isRetryable(error) || delay > generation.timeoutSeconds * 1000) throw error;
+      console.warn(`Generation attempt ${attempt + 1} failed (${error.kind}), retrying in ${Math.round(delay)} ms`);
+      try {
+        await wait(delay, signal);
+      } catch {
+        throw new GenerationError('cancelled', "Generation was cancelled.");
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortAttempt);
+    }
+  }
+};
+
+const generateWithRetry = (
+  provider: ImageGenerationProvider,
+  request: GenerationRequest,
+  generation: GenerationSettings,
+  signal?: AbortSignal
+): Promise<GenerationResult> => withRetry(attemptSignal => provider.generate(request, { signal: attemptSignal }), generation, signal);
+
+const toFailure = (error: GenerationError): GenerationFailure => ({
+  kind: error.kind,
+  message: error.message,
+  modelText: error.modelText,
+});
+
 export const generateStoreFrontDesign = async (
   targetFile: File,
-  maskBase64: string, // This is the raw base64 data (no prefix ideally, or stripped inside)
+  maskBase64: string, // Data URL from the mask editor
+  regions: MaskRegion[],
   references: ReferenceItem[],
-  prompt: string
-): Promise<string> => {
+  prompt: PromptInput,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<DesignOutput> => {
   try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("API Key is missing in environment variables.");
-    }
+    const provider = getProvider(settings.generation.providerId);
+    const request = await prepareRequest(targetFile, maskBase64, regions, references, prompt, settings);
+    const result = await generateWithRetry(provider, { ...request, variantIndex: 0 }, settings.generation, signal);
+    return { imageUrl: result.images[0], notes: result.text };
+  } catch (error) {
+    console.error("Generation Error:", error);
+    throw toGenerationError(error);
+  }
+};
 
-    const ai = new GoogleGenAI({ apiKey });
+// Requests several variants of the same design concurrently. Each variant settles
+// independently, so one failed request doesn't discard the others. Aborting
+// `signal` cancels every variant still in flight; they settle with a 'cancelled' error.
+export const generateStoreFrontVariants = async (
+  targetFile: File,
+  maskBase64: string,
+  regions: MaskRegion[],
+  references: ReferenceItem[],
+  prompt: PromptInput,
+  count: number,
+  settings: AppSettings,
+  onVariant?: (index: number, outcome: VariantOutcome) => void,
+  signal?: AbortSignal
+): Promise<VariantOutcome[]> => {
+  const total = Math.min(MAX_VARIANTS, Math.max(MIN_VARIANTS, Math.round(count)));
+
+  let provider: ImageGenerationProvider;
+  let request: PreparedRequest;
+  try {
+    provider = getProvider(settings.generation.providerId);
+    request = await prepareRequest(targetFile, maskBase64, regions, references, prompt, settings);
+  } catch (error) {
+    console.error("Generation Error:", error);
+    throw toGenerationError(error);
+  }
 
-    // 1. Convert Target to Base64
-    const targetBase64 = await fileToBase64(targetFile);
-    
-    // 2. Determine Aspect Ratio
-    let aspectRatio = "1:1";
+  return Promise.all(Array.from({ length: total }, async (_, index) => {
+    let outcome: VariantOutcome;
     try {
-      const dims = await getImageDimensions(targetBase64, targetFile.type);
-      aspectRatio = getBestAspectRatio(dims.width, dims.height);
-      console.log(`Detected dimensions: ${dims.width}x${dims.height}. Using Aspect Ratio: ${aspectRatio}`);
-    } catch (e) {
-      console.warn("Could not determine image dimensions, defaulting to 1:1", e);
+      const result = await generateWithRetry(provider, { ...request, variantIndex: index }, settings.generation, signal);
+      outcome = { imageUrl: result.images[0], metadata: result.metadata, error: null, notes: result.text };
+    } catch (err) {
+      const error = toGenerationError(err);
+      if (error.kind !== 'cancelled') console.error(`Generation Error (variant ${index + 1}):`, error);
+      outcome = { imageUrl: null, metadata: null, error: toFailure(error), notes: error.modelText };
     }
+    onVariant?.(index, outcome);
+    return outcome;
+  }));
+};
 
-    // 3. Prepare parts
-    const parts: any[] = [];
-
-    // STRICT System instruction for inpainting/renovation
-    let promptText = `You are an expert architectural designer specializing in realistic retail storefront renovations.
-
-TASK:
-Renovate the storefront shown in the "TARGET IMAGE" based on the "USER REQUEST" and "REFERENCE IMAGES".
-You must perform a photorealistic INPAINTING operation constrained by the "MASK IMAGE".
-
-INPUT IMAGES LEGEND:
-1. TARGET IMAGE: The first image provided. The original photo of the shop.
-2. MASK IMAGE: The second image provided. A binary guide (White = Renovate, Black = Protect).
-3. REFERENCE IMAGES: All subsequent images. Use these for materials, colors, and style.
-
-USER REQUEST: "${prompt}"
-
-STRICT CONSTRAINTS:
-1. PERSPECTIVE LOCK: You must absolutely maintain the original camera angle, lens distortion, and vanishing points of the TARGET IMAGE. The result must perfectly overlay the original.
-2. MASK ADHERENCE: 
-   - BLACK AREAS: Do NOT modify any pixel where the mask is black. The street, sidewalk, neighboring buildings, and upper floors must remain identical to the TARGET IMAGE.
-   - WHITE AREAS: Only generate new design content within the white areas of the mask.
-3. REALISM: The lighting (sun direction, shadows, ambient occlusion) of the new design must match the original photo perfectly.
-4. STYLE TRANSFER: Apply the architectural details and materials from the REFERENCE IMAGES to the renovated section.
-
-REFERENCE DESCRIPTIONS:
-`;
-
-    references.forEach((ref, index) => {
-      promptText += `\n- Ref ${index + 1}: ${ref.description}`;
-    });
-
-    parts.push({ text: promptText });
-
-    // Add Target Image (Index 0 for the model)
-    parts.push({
-      inlineData: {
-        mimeType: targetFile.type,
-        data: targetBase64,
-      },
-    });
-
-    // Add Mask Image (Index 1 for the model)
-    // The mask comes from canvas.toDataURL(), so it has the prefix "data:image/png;base64,"
-    const cleanMaskBase64 = maskBase64.replace(/^data:image\/\w+;base64,/, "");
-    parts.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: cleanMaskBase64,
-      },
-    });
-
-    // Add References (Index 2+ for the model)
-    for (const ref of references) {
-      const refBase64 = await fileToBase64(ref.file);
-      parts.push({
-        inlineData: {
-          mimeType: ref.file.type,
-          data: refBase64,
-        },
-      });
+// Asks the model to outline the shopfront's facade, signage, windows and doors.
+// Uses the same request copy of the target as generation, so polygons are in its frame.
+export const detectStorefrontRegions = async (
+  targetFile: File,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<DetectedRegion[]> => {
+  try {
+    const provider = getProvider(settings.generation.providerId);
+    const detect = provider.detectRegions;
+    if (!detect) {
+      throw new GenerationError('unknown', `${provider.label} can't detect shopfront regions. Paint the mask by hand instead.`);
     }
-
-    // Call API
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: parts,
-      },
-      config: {
-        imageConfig: {
-            aspectRatio: aspectRatio as any, 
-        }
-      }
-    });
-
-    // Extract image
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      const contentParts = candidates[0].content.parts;
-      for (const part of contentParts) {
-        if (part.inlineData) {
-          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-      }
+    const { image } = await encodeForRequest(targetFile, settings.upload);
+    const regions = await withRetry<DetectedRegion[]>(
+      attemptSignal => detect.call(provider, { image }, { signal: attemptSignal }),
+      settings.generation,
+      signal
+    );
+    if (regions.length === 0) {
+      throw new GenerationError('unknown', "No shopfront was found in this photo. Paint the mask by hand instead.");
     }
-
-    throw new Error("No image was generated. The model might have returned only text.");
-
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    throw new Error(error.message || "Failed to generate design.");
+    return regions;
+  } catch (error) {
+    console.error("Detection Error:", error);
+    throw toGenerationError(error);
   }
-};
\ No newline at end of file
+};
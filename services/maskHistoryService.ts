@@ -0,0 +1,192 @@
+import { MaskRegion } from "../types";
+import { applyRegionOperation, eraseRegion, importRegionMask, MaskOperation, rasterizeDetections } from "./maskService";
+import { DetectedRegion } from "./providers";
+
+// Undo/redo for the mask editor. Instead of a full-resolution snapshot per
+// stroke, every change is kept as a small record (the points of a stroke, the
+// corners of a shape, the settings of an operation) and undo replays the
+// records onto the canvas. A few snapshots are still kept as checkpoints, so
+// undo replays at most a short run of records and never the costly operations
+// behind a checkpoint.
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+// Edits that depend on which pixels belong to which region keep the regions
+// as they were when the edit was made, so replaying gives the same result.
+// Edits that also add or remove regions keep the list they left behind in
+// `nextRegions`, so undo and redo can restore the list with the pixels.
+export type MaskEdit =
+  | { type: 'stroke'; points: MaskPoint[]; width: number; color: string; erase: boolean }
+  | { type: 'shape'; points: MaskPoint[]; color: string; subtract: boolean }
+  | { type: 'clear' }
+  | { type: 'region-operation'; regions: MaskRegion[]; regionId: string; operation: MaskOperation; amount: number }
+  | { type: 'import'; regions: MaskRegion[]; regionId: string; image: CanvasImageSource }
+  | { type: 'erase-region'; regions: MaskRegion[]; regionId: string; nextRegions: MaskRegion[] }
+  | { type: 'detect'; regions: MaskRegion[]; detections: DetectedRegion[]; nextRegions: MaskRegion[] };
+
+interface Checkpoint {
+  // Number of edits in `done` the snapshot includes
+  count: number;
+  canvas: HTMLCanvasElement;
+}
+
+export interface MaskHistory {
+  // The canvas before the first edit, e.g. a mask restored from a saved project; null when blank
+  base: HTMLCanvasElement | null;
+  done: MaskEdit[];
+  undone: MaskEdit[];
+  checkpoints: Checkpoint[];
+}
+
+// Plain strokes and shapes replay quickly; a checkpoint every so often keeps long sessions snappy
+const CHECKPOINT_INTERVAL = 25;
+// Each checkpoint is a full-resolution copy, so only a few are kept
+const MAX_CHECKPOINTS = 3;
+
+// Edits that read and rewrite every pixel; a checkpoint right after them means undo never re-runs them
+const COSTLY_EDITS: MaskEdit['type'][] = ['region-operation', 'import', 'erase-region', 'detect'];
+
+const RESETTING_EDITS: MaskEdit['type'][] = ['clear', 'detect'];
+
+export const createMaskHistory = (base: HTMLCanvasElement | null = null): MaskHistory => ({
+  base,
+  done: [],
+  undone: [],
+  checkpoints: [],
+});
+
+export const canUndo = (history: MaskHistory) => history.done.length > 0;
+export const canRedo = (history: MaskHistory) => history.undone.length > 0;
+
+// The region list to show once `edit` is undone or redone; null when the edit left the list alone
+export const regionListAfter = (edit: MaskEdit, direction: 'undo' | 'redo'): MaskRegion[] | null => {
+  if (edit.type !== 'erase-region' && edit.type !== 'detect') return null;
+  return direction === 'undo' ? edit.regions : edit.nextRegions;
+};
+
+export const snapshotCanvas = (source: HTMLCanvasElement): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0);
+  return canvas;
+};
+
+// Brush strokes are drawn one segment at a time, both live and on replay, so
+// a replayed stroke comes out pixel-for-pixel the same as the original.
+export const drawStrokeSegment = (
+  ctx: CanvasRenderingContext2D,
+  stroke: Extract<MaskEdit, { type: 'stroke' }>,
+  from: MaskPoint,
+  to: MaskPoint
+) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = stroke.width;
+  ctx.strokeStyle = stroke.erase ? '#000000' : stroke.color;
+  ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const applyMaskEdit = (ctx: CanvasRenderingContext2D, edit: MaskEdit): void => {
+  switch (edit.type) {
+    case 'stroke':
+      // The first point on its own is the dot a single click leaves
+      edit.points.forEach((point, i) => drawStrokeSegment(ctx, edit, edit.points[Math.max(0, i - 1)], point));
+      break;
+    case 'shape':
+      ctx.save();
+      ctx.globalCompositeOperation = edit.subtract ? 'destination-out' : 'source-over';
+      ctx.fillStyle = edit.subtract ? '#000000' : edit.color;
+      ctx.beginPath();
+      edit.points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+      break;
+    case 'clear':
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      break;
+    case 'region-operation':
+      applyRegionOperation(ctx, edit.regions, edit.regionId, edit.operation, edit.amount);
+      break;
+    case 'import':
+      importRegionMask(ctx, edit.regions, edit.regionId, edit.image);
+      break;
+    case 'erase-region':
+      eraseRegion(ctx, edit.regions, edit.regionId);
+      break;
+    case 'detect':
+      rasterizeDetections(ctx, edit.regions, edit.detections);
+      break;
+  }
+};
+
+// Adds an edit that has already been drawn on `ctx`. Anything undone is discarded.
+export const recordMaskEdit = (history: MaskHistory, edit: MaskEdit, ctx: CanvasRenderingContext2D): MaskHistory => {
+  const done = [...history.done, edit];
+  let checkpoints = history.checkpoints.filter(c => c.count < done.length);
+  const lastCheckpoint = checkpoints[checkpoints.length - 1]?.count ?? 0;
+  if (COSTLY_EDITS.includes(edit.type) || done.length - lastCheckpoint >= CHECKPOINT_INTERVAL) {
+    checkpoints = [...checkpoints, { count: done.length, canvas: snapshotCanvas(ctx.canvas) }].slice(-MAX_CHECKPOINTS);
+  }
+  return { ...history, done, undone: [], checkpoints };
+};
+
+// Redraws the canvas from the nearest checkpoint at or before the current edit
+export const replayMaskHistory = (history: MaskHistory, ctx: CanvasRenderingContext2D): void => {
+  const checkpoint = [...history.checkpoints].reverse().find(c => c.count <= history.done.length);
+  let from = checkpoint?.count ?? 0;
+  let start = checkpoint?.canvas || history.base;
+  // Clear and detect wipe the whole canvas, so nothing before the last of them needs replaying
+  for (let i = history.done.length - 1; i >= from; i--) {
+    if (RESETTING_EDITS.includes(history.done[i].type)) {
+      from = i;
+      start = null;
+      break;
+    }
+  }
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (start) ctx.drawImage(start, 0, 0);
+  ctx.restore();
+  history.done.slice(from).forEach(edit => applyMaskEdit(ctx, edit));
+};
+
+export const undoMaskEdit = (history: MaskHistory, ctx: CanvasRenderingContext2D): MaskHistory => {
+  if (!canUndo(history)) return history;
+  const next = {
+    ...history,
+    done: history.done.slice(0, -1),
+    undone: [...history.undone, history.done[history.done.length - 1]],
+  };
+  replayMaskHistory(next, ctx);
+  return next;
+};
+
+// Redone edits are drawn on top of the current canvas; checkpoints past the
+// undo point are still valid because the same edits are being reapplied.
+export const redoMaskEdit = (history: MaskHistory, ctx: CanvasRenderingContext2D): MaskHistory => {
+  if (!canRedo(history)) return history;
+  const checkpoint = history.checkpoints.find(c => c.count === history.done.length + 1);
+  const edit = history.undone[history.undone.length - 1];
+  if (checkpoint) {
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.drawImage(checkpoint.canvas, 0, 0);
+    ctx.restore();
+  } else {
+    applyMaskEdit(ctx, edit);
+  }
+  return { ...history, done: [...history.done, edit], undone: history.undone.slice(0, -1) };
+};
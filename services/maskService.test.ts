@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MaskRegion } from '../types';
+import { labelPixels, maskPixels } from './maskService';
+
+const regions: MaskRegion[] = [
+  { id: 'a', name: 'Signage', color: '#EF4444', instructions: '', mask: null },
+  { id: 'b', name: 'Door', color: '#3B82F6', instructions: '', mask: null },
+];
+
+// RGBA pixels as the editor overlay holds them
+const overlay = (...pixels: [number, number, number, number][]) => new Uint8ClampedArray(pixels.flat());
+
+const grey = (pixels: Uint8ClampedArray) =>
+  Array.from({ length: pixels.length / 4 }, (_, p) => pixels[p * 4]);
+
+describe('labelPixels', () => {
+  it('labels each painted pixel with its region, and unpainted pixels 0', () => {
+    const data = overlay([239, 68, 68, 255], [59, 130, 246, 255], [0, 0, 0, 0]);
+    expect(Array.from(labelPixels(data, regions))).toEqual([1, 2, 0]);
+  });
+
+  it('picks the nearest region colour for blended edge pixels', () => {
+    const data = overlay([220, 80, 90, 128], [70, 120, 230, 40]);
+    expect(Array.from(labelPixels(data, regions))).toEqual([1, 2]);
+  });
+
+  it('treats any colour under zero alpha as unpainted', () => {
+    const data = overlay([239, 68, 68, 0]);
+    expect(Array.from(labelPixels(data, regions))).toEqual([0]);
+  });
+});
+
+describe('maskPixels', () => {
+  const data = overlay([239, 68, 68, 255], [59, 130, 246, 255], [0, 0, 0, 0], [239, 68, 68, 100]);
+  const labels = labelPixels(data, regions);
+
+  it('is white where painted and black elsewhere for the union mask', () => {
+    expect(grey(maskPixels(labels, data, label => label > 0))).toEqual([255, 255, 0, 100]);
+  });
+
+  it('only includes the pixels of the requested region', () => {
+    expect(grey(maskPixels(labels, data, label => label === 2))).toEqual([0, 255, 0, 0]);
+  });
+
+  // Not binary on purpose: the prompt and the composite both read grey as a soft edge
+  it('keeps soft edges as grey from the overlay alpha', () => {
+    expect(grey(maskPixels(labels, data, label => label === 1))).toEqual([255, 0, 0, 100]);
+  });
+
+  it('outputs fully opaque greyscale pixels', () => {
+    const pixels = maskPixels(labels, data, label => label > 0);
+    expect(pixels).toHaveLength(data.length);
+    for (let i = 0; i < pixels.length; i += 4) {
+      expect(pixels[i + 1]).toBe(pixels[i]);
+      expect(pixels[i + 2]).toBe(pixels[i]);
+      expect(pixels[i + 3]).toBe(255);
+    }
+  });
+
+  it('is all black when nothing is painted', () => {
+    const empty = overlay([0, 0, 0, 0], [0, 0, 0, 0]);
+    expect(grey(maskPixels(labelPixels(empty, regions), empty, label => label > 0))).toEqual([0, 0]);
+  });
+});
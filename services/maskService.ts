@@ -0,0 +1,416 @@
+import { MaskRegion } from "../types";
+import { DetectedElement, DetectedRegion } from "./providers";
+import { generateId, loadImage } from "../utils";
+
+// The mask editor paints every region onto one overlay canvas in the region's
+// own opaque colour (the canvas is shown at half opacity). Each painted pixel
+// belongs to the region whose colour is closest, so overlapping strokes simply
+// hand the pixel over to whichever region painted last. A pixel's alpha is how
+// strongly it is masked, which is how feathered and imported soft edges survive.
+
+export const REGION_COLORS = ['#EF4444', '#3B82F6', '#22C55E', '#F59E0B', '#A855F7', '#EC4899', '#06B6D4', '#84CC16'];
+export const MAX_REGIONS = REGION_COLORS.length;
+export const DEFAULT_REGION_NAME = 'Renovation area';
+export const SUGGESTED_REGION_NAMES = ['Signage', 'Awning', 'Shop window', 'Door'];
+
+export const createRegion = (name: string, existing: MaskRegion[]): MaskRegion => ({
+  id: generateId(),
+  name,
+  color: REGION_COLORS.find(color => !existing.some(r => r.color === color)) || REGION_COLORS[0],
+  instructions: '',
+  mask: null,
+});
+
+// Projects start with a single region, which behaves like the old single mask
+export const createDefaultRegions = (mask: string | null = null): MaskRegion[] => [
+  { ...createRegion(DEFAULT_REGION_NAME, []), mask },
+];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// One entry per pixel: 0 for unpainted, otherwise the index of its region plus one
+export const labelPixels = (data: Uint8ClampedArray, regions: MaskRegion[]): Uint8Array => {
+  const colors = regions.map(r => hexToRgb(r.color));
+  const labels = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] === 0) continue;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let r = 0; r < colors.length; r++) {
+      const d = (data[i] - colors[r][0]) ** 2 + (data[i + 1] - colors[r][1]) ** 2 + (data[i + 2] - colors[r][2]) ** 2;
+      if (d < bestDistance) {
+        best = r;
+        bestDistance = d;
+      }
+    }
+    labels[p] = best + 1;
+  }
+  return labels;
+};
+
+// The mask the model and the composite receive, as opaque greyscale RGBA: white
+// where the overlay is fully painted by a region `include` accepts, black where
+// it isn't, and grey from the overlay's alpha on soft and feathered edges
+export const maskPixels = (
+  labels: Uint8Array,
+  overlay: Uint8ClampedArray,
+  include: (label: number) => boolean
+): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(labels.length * 4);
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    const value = include(labels[p]) ? overlay[i + 3] : 0;
+    pixels[i] = value;
+    pixels[i + 1] = value;
+    pixels[i + 2] = value;
+    pixels[i + 3] = 255;
+  }
+  return pixels;
+};
+
+// Writes the mask of the pixels `include` accepts as a PNG data URL
+const labelsToMask = (
+  ctx: CanvasRenderingContext2D,
+  labels: Uint8Array,
+  overlay: Uint8ClampedArray,
+  include: (label: number) => boolean
+): string => {
+  const { width, height } = ctx.canvas;
+  const image = ctx.createImageData(width, height);
+  image.data.set(maskPixels(labels, overlay, include));
+  ctx.putImageData(image, 0, 0);
+  return ctx.canvas.toDataURL('image/png');
+};
+
+// Turns the editor overlay into the union mask plus one mask per region.
+// Regions with nothing painted get a null mask.
+export const buildRegionMasks = (
+  overlay: HTMLCanvasElement,
+  regions: MaskRegion[]
+): { union: string; regions: MaskRegion[] } | null => {
+  const overlayData = overlay.getContext('2d')?.getImageData(0, 0, overlay.width, overlay.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = overlay.width;
+  canvas.height = overlay.height;
+  const ctx = canvas.getContext('2d');
+  if (!overlayData || !ctx) return null;
+
+  const labels = labelPixels(overlayData.data, regions);
+  const painted = new Set(labels);
+  const regionMasks = regions.map((region, index) => ({
+    ...region,
+    mask: painted.has(index + 1) ? labelsToMask(ctx, labels, overlayData.data, label => label === index + 1) : null,
+  }));
+  return { union: labelsToMask(ctx, labels, overlayData.data, label => label > 0), regions: regionMasks };
+};
+
+// Inverse of buildRegionMasks: paints each region's mask back onto the overlay in its colour
+export const drawRegionOverlay = async (ctx: CanvasRenderingContext2D, regions: MaskRegion[]): Promise<void> => {
+  const { width, height } = ctx.canvas;
+  const temp = document.createElement('canvas');
+  temp.width = width;
+  temp.height = height;
+  const tCtx = temp.getContext('2d');
+  if (!tCtx) return;
+
+  const overlay = ctx.createImageData(width, height);
+  for (const region of regions) {
+    if (!region.mask) continue;
+    const img = await loadImage(region.mask);
+    tCtx.clearRect(0, 0, width, height);
+    tCtx.drawImage(img, 0, 0, width, height);
+    const maskData = tCtx.getImageData(0, 0, width, height).data;
+    const [r, g, b] = hexToRgb(region.color);
+    for (let i = 0; i < maskData.length; i += 4) {
+      if (maskData[i] > 0) {
+        overlay.data[i] = r;
+        overlay.data[i + 1] = g;
+        overlay.data[i + 2] = b;
+        overlay.data[i + 3] = maskData[i];
+      }
+    }
+  }
+  ctx.putImageData(overlay, 0, 0);
+};
+
+// Clears the pixels that belong to one region, e.g. before the region is deleted
+export const eraseRegion = (ctx: CanvasRenderingContext2D, regions: MaskRegion[], regionId: string): void => {
+  const index = regions.findIndex(r => r.id === regionId);
+  if (index < 0) return;
+  const { width, height } = ctx.canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const labels = labelPixels(image.data, regions);
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] === index + 1) image.data[p * 4 + 3] = 0;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Morphology on binary masks: one byte per pixel, 1 for masked and 0 for not.
+
+const INF = 1e20;
+
+// Felzenszwalb and Huttenlocher's 1D squared distance transform
+const distanceTransform1d = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) ** 2 + f[v[k]];
+  }
+};
+
+// Squared Euclidean distance from every pixel to the nearest pixel where mask equals `value`
+const squaredDistanceTo = (mask: Uint8Array, width: number, height: number, value: number): Float32Array => {
+  const grid = new Float32Array(width * height);
+  for (let p = 0; p < grid.length; p++) grid[p] = mask[p] === value ? 0 : INF;
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+  }
+  return grid;
+};
+
+// Adds every pixel within `radius` of the mask
+export const growMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const distance = squaredDistanceTo(mask, width, height, 1);
+  return Uint8Array.from(distance, d => d <= radius * radius ? 1 : 0);
+};
+
+// Removes every pixel within `radius` of the unmasked area
+export const shrinkMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const distance = squaredDistanceTo(mask, width, height, 0);
+  return Uint8Array.from(distance, (d, p) => mask[p] && d > radius * radius ? 1 : 0);
+};
+
+export const invertMask = (mask: Uint8Array): Uint8Array => Uint8Array.from(mask, value => 1 - value);
+
+// Masks every unmasked area that can't reach the edge of the image, e.g. the
+// gaps a brush leaves inside a window outline
+export const fillMaskHoles = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const outside = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let top = 0;
+  const visit = (p: number) => {
+    if (!mask[p] && !outside[p]) {
+      outside[p] = 1;
+      stack[top++] = p;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < mask.length - width) visit(p + width);
+  }
+  return Uint8Array.from(outside, value => 1 - value);
+};
+
+// Running-sum box blur along one axis
+const boxBlur = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 1 : width;
+  const window = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * step];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      dst[start + i * step] = sum / window;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+// Softens the mask edge over roughly `radius` pixels. Returns coverage from 0 to 255.
+export const featherMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8ClampedArray => {
+  let a = Float32Array.from(mask);
+  let b = new Float32Array(mask.length);
+  // Two box passes approximate a Gaussian with a tent-shaped falloff
+  const passRadius = Math.max(1, Math.round(radius / 2));
+  for (let pass = 0; pass < 2; pass++) {
+    boxBlur(a, b, width, height, passRadius, true);
+    boxBlur(b, a, width, height, passRadius, false);
+  }
+  return Uint8ClampedArray.from(a, value => value * 255);
+};
+
+export type MaskOperation = 'invert' | 'grow' | 'shrink' | 'feather' | 'fill-holes';
+
+// Writes new coverage for one region. Pixels owned by other regions are left alone,
+// and pixels that stay fully masked keep their current soft edge.
+const writeRegionCoverage = (
+  image: ImageData,
+  labels: Uint8Array,
+  region: MaskRegion,
+  label: number,
+  coverage: ArrayLike<number>
+) => {
+  const [r, g, b] = hexToRgb(region.color);
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    if (labels[p] !== 0 && labels[p] !== label) continue;
+    const value = coverage[p];
+    if (value === 255 && labels[p] === label) continue;
+    image.data[i] = r;
+    image.data[i + 1] = g;
+    image.data[i + 2] = b;
+    image.data[i + 3] = value;
+  }
+};
+
+// Applies a morphological operation to one region of the editor overlay
+export const applyRegionOperation = (
+  ctx: CanvasRenderingContext2D,
+  regions: MaskRegion[],
+  regionId: string,
+  operation: MaskOperation,
+  amount: number
+): void => {
+  const index = regions.findIndex(r => r.id === regionId);
+  if (index < 0) return;
+  const { width, height } = ctx.canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const labels = labelPixels(image.data, regions);
+  const member = Uint8Array.from(labels, label => label === index + 1 ? 1 : 0);
+
+  let coverage: ArrayLike<number>;
+  if (operation === 'feather') {
+    coverage = featherMask(member, width, height, amount);
+  } else {
+    const result =
+      operation === 'invert' ? invertMask(member)
+      : operation === 'grow' ? growMask(member, width, height, amount)
+      : operation === 'shrink' ? shrinkMask(member, width, height, amount)
+      : fillMaskHoles(member, width, height);
+    coverage = Uint8Array.from(result, value => value * 255);
+  }
+
+  writeRegionCoverage(image, labels, regions[index], index + 1, coverage);
+  ctx.putImageData(image, 0, 0);
+};
+
+// Replaces one region with a mask made elsewhere. White is masked, black is not,
+// greys are kept as soft edges and transparent pixels count as black.
+export const importRegionMask = (
+  ctx: CanvasRenderingContext2D,
+  regions: MaskRegion[],
+  regionId: string,
+  maskImage: CanvasImageSource
+): void => {
+  const index = regions.findIndex(r => r.id === regionId);
+  if (index < 0) return;
+  const { width, height } = ctx.canvas;
+  const temp = document.createElement('canvas');
+  temp.width = width;
+  temp.height = height;
+  const tCtx = temp.getContext('2d');
+  if (!tCtx) throw new Error("Canvas is not supported in this browser.");
+  tCtx.drawImage(maskImage, 0, 0, width, height);
+  const source = tCtx.getImageData(0, 0, width, height).data;
+
+  const coverage = new Uint8ClampedArray(width * height);
+  for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+    const luminance = 0.299 * source[i] + 0.587 * source[i + 1] + 0.114 * source[i + 2];
+    const value = luminance * source[i + 3] / 255;
+    // JPEG noise in the black area shouldn't become a faint mask
+    coverage[p] = value < 8 ? 0 : value;
+  }
+
+  const image = ctx.getImageData(0, 0, width, height);
+  const labels = labelPixels(image.data, regions);
+  // Imported coverage replaces the region outright, soft edges included
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] === index + 1) labels[p] = 0;
+  }
+  writeRegionCoverage(image, labels, regions[index], index + 1, coverage);
+  ctx.putImageData(image, 0, 0);
+};
+
+// Region names used for auto-detected elements, in painting order: later
+// elements are painted over earlier ones, so windows and doors cut out of the facade.
+export const DETECTED_REGION_NAMES: Record<DetectedElement, string> = {
+  facade: 'Ground floor facade',
+  signage: 'Signage',
+  window: 'Shop window',
+  door: 'Door',
+};
+
+// Replaces the whole overlay with the detected polygons. Regions with a matching
+// name are reused so their instructions survive; an untouched default region
+// makes way for the detected ones. Returns the new region list.
+export const rasterizeDetections = (
+  ctx: CanvasRenderingContext2D,
+  regions: MaskRegion[],
+  detections: DetectedRegion[]
+): MaskRegion[] => {
+  const { width, height } = ctx.canvas;
+  let next = regions.filter(r => r.name !== DEFAULT_REGION_NAME || r.instructions.trim());
+  ctx.clearRect(0, 0, width, height);
+
+  for (const element of Object.keys(DETECTED_REGION_NAMES) as DetectedElement[]) {
+    const polygons = detections.filter(d => d.element === element);
+    if (polygons.length === 0) continue;
+    const name = DETECTED_REGION_NAMES[element];
+    let region = next.find(r => r.name === name);
+    if (!region) {
+      if (next.length >= MAX_REGIONS) continue;
+      region = createRegion(name, next);
+      next = [...next, region];
+    }
+
+    ctx.fillStyle = region.color;
+    ctx.beginPath();
+    for (const { polygon } of polygons) {
+      polygon.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x * width, point.y * height);
+        else ctx.lineTo(point.x * width, point.y * height);
+      });
+      ctx.closePath();
+    }
+    ctx.fill();
+  }
+
+  // Painted pixels are read back from the canvas, so stale masks are dropped here
+  return next.length > 0 ? next.map(r => ({ ...r, mask: null })) : createDefaultRegions();
+};
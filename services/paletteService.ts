@@ -0,0 +1,130 @@
+import { CropRegion } from "../types";
+import { loadImage } from "../utils";
+
+// Dominant colour extraction, done in the browser with median cut. Images are
+// downsampled first; a few thousand pixels are plenty to find the main colours.
+
+export const PALETTE_SIZE = 6;
+const SAMPLE_SIZE = 64;
+const KMEANS_PASSES = 4;
+
+export type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb): string =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const samplePixels = (img: HTMLImageElement, crop: CropRegion | null): Rgb[] => {
+  const sx = crop ? crop.x * img.naturalWidth : 0;
+  const sy = crop ? crop.y * img.naturalHeight : 0;
+  const sw = crop ? crop.width * img.naturalWidth : img.naturalWidth;
+  const sh = crop ? crop.height * img.naturalHeight : img.naturalHeight;
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, width, height);
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    // Transparent areas of PNG cut-outs aren't part of the design
+    if (data[i + 3] < 128) continue;
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return pixels;
+};
+
+const widestChannel = (box: Rgb[]): { channel: number; range: number } => {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 255;
+    let max = 0;
+    for (const pixel of box) {
+      if (pixel[channel] < min) min = pixel[channel];
+      if (pixel[channel] > max) max = pixel[channel];
+    }
+    if (max - min > best.range) best = { channel, range: max - min };
+  }
+  return best;
+};
+
+const average = (box: Rgb[]): Rgb => {
+  const sum: Rgb = [0, 0, 0];
+  for (const pixel of box) {
+    sum[0] += pixel[0];
+    sum[1] += pixel[1];
+    sum[2] += pixel[2];
+  }
+  return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length];
+};
+
+const distance = (a: Rgb, b: Rgb) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Median cut splits at the pixel median, which can land in the middle of a
+// flat colour and blend it with its neighbour. A few k-means passes seeded
+// with the median-cut colours pull each one back onto a real colour.
+const refineCenters = (pixels: Rgb[], centers: Rgb[]): { center: Rgb; size: number }[] => {
+  let clusters = centers.map(center => ({ center, members: [] as Rgb[] }));
+  for (let pass = 0; pass < KMEANS_PASSES; pass++) {
+    clusters.forEach(c => { c.members = []; });
+    for (const pixel of pixels) {
+      let nearest = clusters[0];
+      for (const cluster of clusters) {
+        if (distance(pixel, cluster.center) < distance(pixel, nearest.center)) nearest = cluster;
+      }
+      nearest.members.push(pixel);
+    }
+    clusters = clusters.filter(c => c.members.length > 0);
+    clusters.forEach(c => { c.center = average(c.members); });
+  }
+  return clusters.map(c => ({ center: c.center, size: c.members.length }));
+};
+
+// Repeatedly splits the box with the widest colour range at its median until
+// there are `count` boxes, then refines them. Returns hex colours, most common first.
+export const medianCut = (pixels: Rgb[], count: number): string[] => {
+  if (pixels.length === 0) return [];
+  const boxes: Rgb[][] = [pixels.slice()];
+
+  while (boxes.length < count) {
+    let target = -1;
+    let targetRange = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const { range } = widestChannel(box);
+      if (range > targetRange) {
+        target = index;
+        targetRange = range;
+      }
+    });
+    // Every box is a single colour already
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const { channel } = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  const colors = refineCenters(pixels, boxes.map(average))
+    .sort((a, b) => b.size - a.size)
+    .map(c => toHex(c.center));
+  return [...new Set(colors)];
+};
+
+export const extractPalette = async (image: Blob, crop: CropRegion | null = null, count = PALETTE_SIZE): Promise<string[]> => {
+  const url = URL.createObjectURL(image);
+  try {
+    const img = await loadImage(url);
+    return medianCut(samplePixels(img, crop), count);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,201 @@
+// Minimal PDF writer for exported decks. It supports what the decks need and
+// nothing more: JPEG images, filled rectangles and text in the built-in
+// Helvetica faces, so no fonts have to be embedded. Coordinates are in points
+// with the origin at the top-left of the page.
+
+export interface PdfImage {
+  // Baseline JPEG bytes, embedded as-is
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type PdfItem =
+  | { type: 'text'; x: number; y: number; size: number; text: string; bold?: boolean; color?: string }
+  | { type: 'image'; x: number; y: number; width: number; height: number; image: PdfImage }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PdfItem[];
+}
+
+// Glyph widths in 1/1000 em for characters 32-126, from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Accented Latin letters and other characters outside ASCII get an average width
+const FALLBACK_WIDTH = 556;
+
+// WinAnsi codes for the punctuation people actually type that isn't in Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Characters the standard fonts can't show become '?'
+const toWinAnsi = (text: string): number[] =>
+  Array.from(text, char => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 63;
+  });
+
+const charWidth = (code: number, bold: boolean) => {
+  if (code >= 32 && code <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  return FALLBACK_WIDTH;
+};
+
+export const textWidth = (text: string, size: number, bold = false): number =>
+  toWinAnsi(text).reduce((sum, code) => sum + charWidth(code, bold), 0) * size / 1000;
+
+// Breaks text into lines no wider than `maxWidth`, keeping explicit line breaks.
+// Words longer than a line are split between characters.
+export const wrapText = (text: string, size: number, maxWidth: number, bold = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const colorOperands = (hex: string): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const hexString = (bytes: number[]) => `<${bytes.map(b => b.toString(16).padStart(2, '0')).join('')}>`;
+
+export const buildPdf = (pages: PdfPage[], title = ''): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Fixed objects first; images and pages are numbered after them
+  const CATALOG = 1;
+  const PAGES = 2;
+  const FONT = 3;
+  const FONT_BOLD = 4;
+  const INFO = 5;
+  let nextId = 6;
+
+  // Each distinct image is embedded once, however many pages use it
+  const imageIds = new Map<PdfImage, number>();
+  for (const page of pages) {
+    for (const item of page.items) {
+      if (item.type === 'image' && !imageIds.has(item.image)) imageIds.set(item.image, nextId++);
+    }
+  }
+  const pageIds = pages.map(() => {
+    const ids = { page: nextId, content: nextId + 1 };
+    nextId += 2;
+    return ids;
+  });
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  startObject(CATALOG);
+  write(`<< /Type /Catalog /Pages ${PAGES} 0 R >>\nendobj\n`);
+  startObject(PAGES);
+  write(`<< /Type /Pages /Kids [${pageIds.map(ids => `${ids.page} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  startObject(FONT);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+  startObject(FONT_BOLD);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+  startObject(INFO);
+  // UTF-16BE with a byte order mark, so any title survives
+  const titleBytes = Array.from({ length: title.length }, (_, i) => title.charCodeAt(i)).flatMap(code => [code >> 8, code & 255]);
+  write(`<< /Title ${hexString([0xFE, 0xFF, ...titleBytes])} /Producer (StoreFront AI) >>\nendobj\n`);
+
+  for (const [image, id] of imageIds) {
+    startObject(id);
+    write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`);
+    write(image.jpeg);
+    write('\nendstream\nendobj\n');
+  }
+
+  pages.forEach((page, index) => {
+    const ids = pageIds[index];
+    const ops: string[] = [];
+    for (const item of page.items) {
+      if (item.type === 'rect') {
+        ops.push(`${colorOperands(item.color)} rg ${num(item.x)} ${num(page.height - item.y - item.height)} ${num(item.width)} ${num(item.height)} re f`);
+      } else if (item.type === 'image') {
+        ops.push(`q ${num(item.width)} 0 0 ${num(item.height)} ${num(item.x)} ${num(page.height - item.y - item.height)} cm /Im${imageIds.get(item.image)} Do Q`);
+      } else {
+        // `y` is the top of the text; the baseline sits about 0.8 em below it
+        ops.push(`BT /${item.bold ? 'F2' : 'F1'} ${num(item.size)} Tf ${colorOperands(item.color || '#000000')} rg ` +
+          `${num(item.x)} ${num(page.height - item.y - item.size * 0.8)} Td ${hexString(toWinAnsi(item.text))} Tj ET`);
+      }
+    }
+    const content = encoder.encode(ops.join('\n'));
+    const xObjects = page.items
+      .filter((item): item is Extract<PdfItem, { type: 'image' }> => item.type === 'image')
+      .map(item => `/Im${imageIds.get(item.image)} ${imageIds.get(item.image)} 0 R`);
+
+    startObject(ids.page);
+    write(`<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 ${FONT} 0 R /F2 ${FONT_BOLD} 0 R >> /XObject << ${[...new Set(xObjects)].join(' ')} >> >> ` +
+      `/Contents ${ids.content} 0 R >>\nendobj\n`);
+    startObject(ids.content);
+    write(`<< /Length ${content.length} >>\nstream\n`);
+    write(content);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root ${CATALOG} 0 R /Info ${INFO} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,363 @@
+import { GenerationNode, ReferenceItem } from "../types";
+import { loadImage } from "../utils";
+import { compositeDesign, DEFAULT_FEATHER_RADIUS } from "./compositeService";
+import { REFERENCE_ROLES, REFERENCE_WEIGHTS } from "./geminiService";
+import { buildPdf, PdfImage, PdfItem, PdfPage, wrapText } from "./pdfService";
+import { findSignageFont, signageLines } from "./signageService";
+
+// Client presentation decks, built entirely in the browser from one generation:
+// title page, the current photo and mask, the brief, the references, every
+// chosen variant and a before/after page for each. The same deck renders as a
+// PDF or as a single HTML file with the images inlined.
+
+export type PresentationFormat = 'pdf' | 'html';
+
+export interface PresentationOptions {
+  format: PresentationFormat;
+  title: string;
+  shopName: string;
+  designer: string;
+  // yyyy-mm-dd, as given by a date input
+  date: string;
+  onlyStarred: boolean;
+}
+
+interface DeckImage extends PdfImage {
+  dataUrl: string;
+}
+
+interface Deck {
+  title: string;
+  shopName: string;
+  designer: string;
+  date: string;
+  original: DeckImage;
+  mask: DeckImage;
+  brief: { label: string; text: string }[];
+  references: { image: DeckImage; caption: string; notes: string }[];
+  variants: { label: string; image: DeckImage; notes: string | null }[];
+}
+
+const DESIGNER_KEY = 'storefront-ai:designer';
+
+// Big enough for a full-screen slide, small enough to keep a 20-page deck shareable
+const DECK_IMAGE_EDGE = 1600;
+const DECK_JPEG_QUALITY = 0.85;
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const HEADING_SIZE = 20;
+const BODY_SIZE = 11;
+const LINE_GAP = 1.35;
+const CONTENT_TOP = 84;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 48;
+const ACCENT = '#4F46E5';
+const INK = '#0F172A';
+const MUTED = '#64748B';
+
+const prepareImage = async (source: Blob | string): Promise<DeckImage> => {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, DECK_IMAGE_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    // JPEG has no alpha, so transparent areas would otherwise turn black
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const dataUrl = canvas.toDataURL('image/jpeg', DECK_JPEG_QUALITY);
+    const binary = atob(dataUrl.split(',')[1]);
+    const jpeg = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return { dataUrl, jpeg, width: canvas.width, height: canvas.height };
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
+
+// The designer's name is remembered between exports, since it's nearly always the same person
+export const loadDesignerName = (): string => {
+  try {
+    return localStorage.getItem(DESIGNER_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveDesignerName = (name: string) => {
+  try {
+    localStorage.setItem(DESIGNER_KEY, name.trim());
+  } catch (err) {
+    console.warn("Could not save the designer name", err);
+  }
+};
+
+export const formatDeckDate = (date: string): string => {
+  const parsed = new Date(`${date}T12:00:00`);
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString(undefined, { dateStyle: 'long' });
+};
+
+const buildBrief = (generation: GenerationNode, templateName: string): Deck['brief'] => {
+  const { promptOptions } = generation;
+  const brief: Deck['brief'] = [];
+  if (generation.prompt.trim()) brief.push({ label: 'Design instructions', text: generation.prompt.trim() });
+  const regions = generation.regions.filter(r => r.mask && r.instructions.trim());
+  if (regions.length > 0) {
+    brief.push({ label: 'Areas', text: regions.map(r => `${r.name || 'Region'}: ${r.instructions.trim()}`).join('\n') });
+  }
+  const sign = signageLines(promptOptions.signage);
+  if (sign.length > 0 && promptOptions.signage.box) {
+    const font = findSignageFont(promptOptions.signage.fontId);
+    brief.push({ label: 'Sign text', text: `"${sign.join(' / ')}" in ${font.label.toLowerCase()}, ${promptOptions.signage.color.toUpperCase()}` });
+  }
+  if (promptOptions.extraConstraints.trim()) brief.push({ label: 'Constraints', text: promptOptions.extraConstraints.trim() });
+  if (promptOptions.pinnedTargetColors.length > 0) {
+    brief.push({ label: 'Colors kept from the current facade', text: promptOptions.pinnedTargetColors.join(', ') });
+  }
+  brief.push({ label: 'Style template', text: templateName });
+  return brief;
+};
+
+const describeReference = (ref: ReferenceItem): string => {
+  const roles = REFERENCE_ROLES.filter(r => ref.roles.includes(r.role)).map(r => r.label);
+  const weight = REFERENCE_WEIGHTS.find(w => w.weight === ref.weight)?.label || '';
+  return [roles.length > 0 ? roles.join(', ') : 'Overall reference', weight && `${weight} influence`].filter(Boolean).join(' · ');
+};
+
+const buildDeck = async (
+  generation: GenerationNode,
+  references: ReferenceItem[],
+  templateName: string,
+  options: PresentationOptions
+): Promise<Deck> => {
+  const finished = generation.variants.filter(v => v.status === 'done' && v.imageUrl);
+  const chosen = options.onlyStarred && finished.some(v => v.starred) ? finished.filter(v => v.starred) : finished;
+  if (chosen.length === 0) throw new Error("There are no finished designs to present.");
+
+  const [original, mask] = await Promise.all([prepareImage(generation.targetImage), prepareImage(generation.maskImageBase64)]);
+  const usedReferences = references.filter(ref => generation.referenceIds.includes(ref.id));
+
+  // Variants are shown blended into the full photo, the way they'd be delivered
+  const variants: Deck['variants'] = [];
+  for (const variant of chosen) {
+    let source: Blob | string = variant.imageUrl!;
+    try {
+      source = await compositeDesign(generation.targetImage, variant.imageUrl!, generation.maskImageBase64, { featherRadius: DEFAULT_FEATHER_RADIUS });
+    } catch (err) {
+      console.warn("Could not blend variant for the presentation, using the raw design", err);
+    }
+    variants.push({
+      label: `Option ${finished.indexOf(variant) + 1}${variant.starred ? ' ★' : ''}`,
+      image: await prepareImage(source),
+      notes: variant.notes,
+    });
+  }
+
+  return {
+    title: options.title.trim() || 'Storefront design concept',
+    shopName: options.shopName.trim(),
+    designer: options.designer.trim(),
+    date: formatDeckDate(options.date),
+    original,
+    mask,
+    brief: buildBrief(generation, templateName),
+    references: await Promise.all(usedReferences.map(async ref => ({
+      image: await prepareImage(ref.file),
+      caption: describeReference(ref),
+      notes: ref.description.trim(),
+    }))),
+    variants,
+  };
+};
+
+// Largest size that fits the image in the box, centred in it
+const fitImage = (image: DeckImage, x: number, y: number, width: number, height: number): PdfItem => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  return { type: 'image', image, x: x + (width - w) / 2, y: y + (height - h) / 2, width: w, height: h };
+};
+
+// Wrapped text that stops at `maxLines`, ending in an ellipsis when cut short
+const textBlock = (text: string, x: number, y: number, width: number, size: number, maxLines: number, color = INK): PdfItem[] => {
+  let lines = wrapText(text, size, width);
+  if (lines.length > maxLines) lines = [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`];
+  return lines.map((line, i) => ({ type: 'text' as const, text: line, x, y: y + i * size * LINE_GAP, size, color }));
+};
+
+const renderPdf = (deck: Deck): Blob => {
+  const pages: PdfPage[] = [];
+  const footer = [deck.shopName, deck.date].filter(Boolean).join(' · ');
+  const addPage = (heading: string, items: PdfItem[]) => {
+    pages.push({
+      width: PAGE_WIDTH,
+      height: PAGE_HEIGHT,
+      items: [
+        { type: 'rect', x: 0, y: 0, width: PAGE_WIDTH, height: 6, color: ACCENT },
+        { type: 'text', text: heading, x: MARGIN, y: 36, size: HEADING_SIZE, bold: true, color: INK },
+        ...items,
+        { type: 'text', text: footer, x: MARGIN, y: PAGE_HEIGHT - 28, size: 9, color: MUTED },
+        { type: 'text', text: String(pages.length + 1), x: PAGE_WIDTH - MARGIN - 12, y: PAGE_HEIGHT - 28, size: 9, color: MUTED },
+      ],
+    });
+  };
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const contentHeight = CONTENT_BOTTOM - CONTENT_TOP;
+  const halfWidth = (contentWidth - 20) / 2;
+
+  // Title page: cover image on the right, details on the left
+  const cover = deck.variants[0].image;
+  pages.push({
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    items: [
+      { type: 'rect', x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: INK },
+      fitImage(cover, PAGE_WIDTH / 2, 0, PAGE_WIDTH / 2, PAGE_HEIGHT),
+      { type: 'rect', x: MARGIN, y: 200, width: 48, height: 4, color: ACCENT },
+      ...textBlock(deck.title, MARGIN, 220, PAGE_WIDTH / 2 - MARGIN * 2, 28, 3, '#FFFFFF').map(item => ({ ...item, bold: true })),
+      ...[deck.shopName, deck.date, deck.designer && `Prepared by ${deck.designer}`]
+        .filter(Boolean)
+        .map((text, i) => ({ type: 'text' as const, text: text as string, x: MARGIN, y: 340 + i * 20, size: 13, color: '#CBD5E1' })),
+    ],
+  });
+
+  addPage('The storefront today', [
+    fitImage(deck.original, MARGIN, CONTENT_TOP, halfWidth, contentHeight - 24),
+    fitImage(deck.mask, MARGIN + halfWidth + 20, CONTENT_TOP, halfWidth, contentHeight - 24),
+    { type: 'text', text: 'Current photo', x: MARGIN, y: CONTENT_BOTTOM - 14, size: 10, color: MUTED },
+    { type: 'text', text: 'Area to redesign (white)', x: MARGIN + halfWidth + 20, y: CONTENT_BOTTOM - 14, size: 10, color: MUTED },
+  ]);
+
+  // The brief flows onto further pages if it's long
+  let items: PdfItem[] = [];
+  let y = CONTENT_TOP;
+  for (const entry of deck.brief) {
+    const lines = wrapText(entry.text, BODY_SIZE, contentWidth);
+    const needed = 18 + lines.length * BODY_SIZE * LINE_GAP + 14;
+    if (y + needed > CONTENT_BOTTOM && items.length > 0) {
+      addPage('Design brief', items);
+      items = [];
+      y = CONTENT_TOP;
+    }
+    items.push({ type: 'text', text: entry.label.toUpperCase(), x: MARGIN, y, size: 9, bold: true, color: ACCENT });
+    y += 18;
+    for (const line of lines) {
+      if (y + BODY_SIZE > CONTENT_BOTTOM) break;
+      items.push({ type: 'text', text: line, x: MARGIN, y, size: BODY_SIZE, color: INK });
+      y += BODY_SIZE * LINE_GAP;
+    }
+    y += 14;
+  }
+  addPage('Design brief', items);
+
+  // Three references per page, each with its caption and notes underneath
+  const columnWidth = (contentWidth - 40) / 3;
+  for (let start = 0; start < deck.references.length; start += 3) {
+    addPage('References', deck.references.slice(start, start + 3).flatMap((ref, i) => {
+      const x = MARGIN + i * (columnWidth + 20);
+      return [
+        fitImage(ref.image, x, CONTENT_TOP, columnWidth, 250),
+        { type: 'text' as const, text: ref.caption, x, y: CONTENT_TOP + 262, size: 10, bold: true, color: INK },
+        ...textBlock(ref.notes, x, CONTENT_TOP + 280, columnWidth, 10, 10, MUTED),
+      ];
+    }));
+  }
+
+  for (const variant of deck.variants) {
+    const notesWidth = 220;
+    addPage(variant.label, [
+      fitImage(variant.image, MARGIN, CONTENT_TOP, contentWidth - (variant.notes ? notesWidth + 20 : 0), contentHeight),
+      ...(variant.notes ? [
+        { type: 'text' as const, text: 'DESIGN NOTES', x: PAGE_WIDTH - MARGIN - notesWidth, y: CONTENT_TOP, size: 9, bold: true, color: ACCENT },
+        ...textBlock(variant.notes, PAGE_WIDTH - MARGIN - notesWidth, CONTENT_TOP + 18, notesWidth, 10, 30, INK),
+      ] : []),
+    ]);
+  }
+
+  for (const variant of deck.variants) {
+    addPage(`${variant.label}: before and after`, [
+      fitImage(deck.original, MARGIN, CONTENT_TOP, halfWidth, contentHeight - 24),
+      fitImage(variant.image, MARGIN + halfWidth + 20, CONTENT_TOP, halfWidth, contentHeight - 24),
+      { type: 'text', text: 'Before', x: MARGIN, y: CONTENT_BOTTOM - 14, size: 10, bold: true, color: MUTED },
+      { type: 'text', text: 'After', x: MARGIN + halfWidth + 20, y: CONTENT_BOTTOM - 14, size: 10, bold: true, color: MUTED },
+    ]);
+  }
+
+  return buildPdf(pages, deck.title);
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const paragraphs = (text: string): string =>
+  text.split('\n').map(line => escapeHtml(line)).join('<br>');
+
+const HTML_STYLES = `
+*{box-sizing:border-box}body{margin:0;background:#e2e8f0;font-family:-apple-system,"Segoe UI",Helvetica,Arial,sans-serif;color:${INK}}
+section{width:min(1100px,100vw);aspect-ratio:297/210;margin:24px auto;background:#fff;border-top:6px solid ${ACCENT};padding:40px 48px 56px;position:relative;display:flex;flex-direction:column;box-shadow:0 4px 24px rgba(15,23,42,.12)}
+section h2{margin:0 0 20px;font-size:26px}section footer{position:absolute;left:48px;right:48px;bottom:20px;display:flex;justify-content:space-between;font-size:12px;color:${MUTED}}
+.title{background:${INK};color:#fff;flex-direction:row;padding:0;border-top:0}.title .text{flex:1;padding:48px;display:flex;flex-direction:column;justify-content:center}
+.title h1{font-size:40px;margin:16px 0 24px;border-top:4px solid ${ACCENT};padding-top:16px;width:fit-content}.title p{margin:4px 0;color:#cbd5e1;font-size:17px}
+.title .cover{flex:1;background-size:cover;background-position:center}
+.row{flex:1;display:flex;gap:24px;min-height:0}.row figure{flex:1;margin:0;display:flex;flex-direction:column;min-height:0}
+figure img{flex:1;min-height:0;width:100%;object-fit:contain;background:#f8fafc}figcaption{margin-top:8px;font-size:13px;color:${MUTED}}
+figcaption strong{display:block;color:${INK}}.brief dt{font-size:11px;font-weight:700;letter-spacing:.08em;text-transform:uppercase;color:${ACCENT};margin-top:16px}
+.brief dd{margin:6px 0 0;font-size:15px;line-height:1.45}.notes{width:260px;font-size:14px;line-height:1.45;overflow:auto}
+.notes h3{font-size:11px;letter-spacing:.08em;color:${ACCENT};margin:0 0 8px}
+@media print{body{background:#fff}section{margin:0;box-shadow:none;width:100%;page-break-after:always}@page{size:A4 landscape;margin:0}}`;
+
+const renderHtml = (deck: Deck): Blob => {
+  let page = 1;
+  const footer = [deck.shopName, deck.date].filter(Boolean).map(escapeHtml).join(' · ');
+  const slide = (heading: string, body: string) =>
+    `<section><h2>${escapeHtml(heading)}</h2>${body}<footer><span>${footer}</span><span>${++page}</span></footer></section>`;
+  const figure = (image: DeckImage, caption: string, notes = '') =>
+    `<figure><img src="${image.dataUrl}" alt="${escapeHtml(caption)}"><figcaption><strong>${escapeHtml(caption)}</strong>${paragraphs(notes)}</figcaption></figure>`;
+
+  const slides = [
+    `<section class="title"><div class="text"><h1>${escapeHtml(deck.title)}</h1>` +
+      [deck.shopName, deck.date, deck.designer && `Prepared by ${deck.designer}`].filter(Boolean).map(text => `<p>${escapeHtml(text as string)}</p>`).join('') +
+      `</div><div class="cover" style="background-image:url(${deck.variants[0].image.dataUrl})"></div></section>`,
+    slide('The storefront today', `<div class="row">${figure(deck.original, 'Current photo')}${figure(deck.mask, 'Area to redesign (white)')}</div>`),
+    slide('Design brief', `<dl class="brief">${deck.brief.map(entry => `<dt>${escapeHtml(entry.label)}</dt><dd>${paragraphs(entry.text)}</dd>`).join('')}</dl>`),
+  ];
+  for (let start = 0; start < deck.references.length; start += 3) {
+    slides.push(slide('References', `<div class="row">${deck.references.slice(start, start + 3).map(ref => figure(ref.image, ref.caption, ref.notes)).join('')}</div>`));
+  }
+  for (const variant of deck.variants) {
+    const notes = variant.notes ? `<aside class="notes"><h3>DESIGN NOTES</h3>${paragraphs(variant.notes)}</aside>` : '';
+    slides.push(slide(variant.label, `<div class="row"><figure><img src="${variant.image.dataUrl}" alt="${escapeHtml(variant.label)}"></figure>${notes}</div>`));
+  }
+  for (const variant of deck.variants) {
+    slides.push(slide(`${variant.label}: before and after`, `<div class="row">${figure(deck.original, 'Before')}${figure(variant.image, 'After')}</div>`));
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(deck.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${slides.join('\n')}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
+
+export const exportPresentation = async (
+  generation: GenerationNode,
+  references: ReferenceItem[],
+  templateName: string,
+  options: PresentationOptions
+): Promise<Blob> => {
+  const deck = await buildDeck(generation, references, templateName, options);
+  return options.format === 'pdf' ? renderPdf(deck) : renderHtml(deck);
+};
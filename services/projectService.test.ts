@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AppStep, BatchItem, DesignState, ProjectRecord } from '../types';
+import { releaseProject, serializeProject, summarizeProject } from './projectService';
+import { createDefaultRegions } from './maskService';
+import { DEFAULT_PROMPT_OPTIONS } from './templateService';
+import { stubBrowserApis } from '../testUtils';
+
+const meta = { id: 'project', name: 'Shop', createdAt: 0 };
+
+const batchItem = (id: string, imageUrl: string): BatchItem => ({
+  id,
+  file: new File(['shop'], `${id}.jpg`, { type: 'image/jpeg' }),
+  previewUrl: `blob:test/${id}`,
+  mask: null,
+  status: 'done',
+  imageUrl,
+  notes: null,
+  error: null,
+});
+
+const state = (batch: BatchItem[]): DesignState => ({
+  references: [],
+  targetImage: null,
+  targetImagePreview: 'blob:test/photo',
+  maskImageBase64: null,
+  regions: createDefaultRegions(),
+  userPrompt: '',
+  promptOptions: DEFAULT_PROMPT_OPTIONS,
+  isGenerating: false,
+  generations: [],
+  activeGenerationId: null,
+  selectedVariantId: null,
+  refineSource: null,
+  error: null,
+  batch,
+});
+
+const IMAGE = 'data:image/png;base64,SU1BR0U=';
+
+describe('serializeProject', () => {
+  it('reuses the blob decoded by the previous save', () => {
+    const first = serializeProject(meta, AppStep.BATCH, state([batchItem('a', IMAGE)]));
+    const second = serializeProject(meta, AppStep.BATCH, state([batchItem('a', IMAGE)]));
+    expect(second.batch[0].image).toBe(first.batch[0].image);
+  });
+
+  it('forgets blobs the previous save no longer used', () => {
+    const first = serializeProject(meta, AppStep.BATCH, state([batchItem('a', IMAGE)]));
+    serializeProject(meta, AppStep.BATCH, state([]));
+    const third = serializeProject(meta, AppStep.BATCH, state([batchItem('a', IMAGE)]));
+    expect(third.batch[0].image).not.toBe(first.batch[0].image);
+  });
+});
+
+describe('releaseProject', () => {
+  it('revokes the preview URLs and drops the cached blobs', () => {
+    stubBrowserApis();
+    const open = state([batchItem('a', IMAGE)]);
+    const first = serializeProject(meta, AppStep.BATCH, open);
+
+    releaseProject(open);
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test/photo');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test/a');
+    const reopened = serializeProject(meta, AppStep.BATCH, open);
+    expect(reopened.batch[0].image).not.toBe(first.batch[0].image);
+  });
+});
+
+describe('summarizeProject', () => {
+  it('keeps only what the picker lists, with the starred variant as thumbnail', () => {
+    const starred = new Blob(['starred'], { type: 'image/png' });
+    const record = {
+      ...serializeProject(meta, AppStep.RESULT, state([])),
+      generations: [{
+        id: 'g1',
+        variants: [
+          { id: 'v1', image: new Blob(['first'], { type: 'image/png' }), starred: false, notes: null },
+          { id: 'v2', image: starred, starred: true, notes: null },
+        ],
+      }],
+      activeGenerationId: 'g1',
+    } as ProjectRecord;
+
+    expect(summarizeProject(record)).toEqual({
+      id: 'project',
+      name: 'Shop',
+      createdAt: 0,
+      updatedAt: record.updatedAt,
+      thumbnail: starred,
+    });
+  });
+});
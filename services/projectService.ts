@@ -0,0 +1,300 @@
+import {
+  AppStep, BatchItem, DesignState, DesignVariant, GenerationNode, MaskRegion, ProjectRecord, ProjectSummary, StoredBatchItem,
+  StoredGeneration, StoredMaskRegion, StoredVariant,
+} from "../types";
+import { blobToDataUrl, dataUrlToBlob, generateId } from "../utils";
+import { DEFAULT_REFERENCE_WEIGHT } from "./geminiService";
+import { createDefaultRegions } from "./maskService";
+import { DEFAULT_PROMPT_OPTIONS } from "./templateService";
+
+const DB_NAME = 'storefront-ai';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+// Name, dates and thumbnail of each project, so the picker never loads whole records
+const SUMMARY_STORE = 'summaries';
+
+export const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+type BlobCache = Map<string, { source: string; blob: Blob }>;
+
+// Autosave runs often and a project can hold many generated images, so decoded
+// blobs are cached by owner id and only rebuilt when the data URL changes.
+// Each save keeps only the entries it used, so deleted images don't linger.
+let blobCache: BlobCache = new Map();
+
+const cachedBlob = (used: BlobCache, key: string, dataUrl: string): Blob => {
+  const cached = blobCache.get(key);
+  const entry = cached && cached.source === dataUrl ? cached : { source: dataUrl, blob: dataUrlToBlob(dataUrl) };
+  used.set(key, entry);
+  return entry.blob;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const projects = db.objectStoreNames.contains(PROJECT_STORE)
+          ? request.transaction!.objectStore(PROJECT_STORE)
+          : db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          // Projects saved before summaries existed get theirs once, one record at a time
+          const cursorRequest = projects.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            summaries.put(summarizeProject(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs requests against the given stores in one transaction and resolves with
+// the returned request's result once the transaction completes
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  withStores([PROJECT_STORE], mode, tx => run(tx.objectStore(PROJECT_STORE)));
+
+// The thumbnail is the starred or first variant of the active generation, else the photo
+export const summarizeProject = (record: ProjectRecord): ProjectSummary => {
+  const active = record.generations.find(g => g.id === record.activeGenerationId);
+  const variants = active?.variants || [];
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    thumbnail: (variants.find(v => v.starred) || variants[0])?.image || record.targetImage || record.batch?.[0]?.file || null,
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await withStores<ProjectSummary[]>([SUMMARY_STORE], 'readonly', tx => tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | null> => {
+  const record = await withStore<ProjectRecord | undefined>('readonly', store => store.get(id));
+  return record || null;
+};
+
+export const saveProject = async (record: ProjectRecord): Promise<void> => {
+  await withStores([PROJECT_STORE, SUMMARY_STORE], 'readwrite', tx => {
+    tx.objectStore(SUMMARY_STORE).put(summarizeProject(record));
+    return tx.objectStore(PROJECT_STORE).put(record);
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStores([PROJECT_STORE, SUMMARY_STORE], 'readwrite', tx => {
+    tx.objectStore(SUMMARY_STORE).delete(id);
+    return tx.objectStore(PROJECT_STORE).delete(id);
+  });
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const record = await loadProject(id);
+  if (!record) throw new Error("Project not found.");
+  await saveProject({ ...record, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const record = await loadProject(id);
+  if (!record) throw new Error("Project not found.");
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...record,
+    id: generateId(),
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+// Only finished variants are worth keeping; pending and failed ones are transient
+const serializeVariants = (used: BlobCache, variants: DesignVariant[]): StoredVariant[] =>
+  variants
+    .filter(v => v.status === 'done' && v.imageUrl)
+    .map(v => ({ id: v.id, image: cachedBlob(used, v.id, v.imageUrl!), starred: v.starred, notes: v.notes }));
+
+const hydrateVariants = (variants: StoredVariant[]): Promise<DesignVariant[]> =>
+  Promise.all(variants.map(async v => ({
+    id: v.id,
+    status: 'done' as const,
+    imageUrl: await blobToDataUrl(v.image),
+    error: null,
+    notes: v.notes ?? null,
+    starred: v.starred,
+  })));
+
+const serializeRegions = (used: BlobCache, ownerId: string, regions: MaskRegion[]): StoredMaskRegion[] =>
+  regions.map(region => ({
+    ...region,
+    mask: region.mask ? cachedBlob(used, `${ownerId}:region:${region.id}`, region.mask) : null,
+  }));
+
+// Projects saved before regions existed get one region holding their whole mask
+const hydrateRegions = async (regions: StoredMaskRegion[] | undefined, mask: string | null): Promise<MaskRegion[]> => {
+  if (!regions || regions.length === 0) return createDefaultRegions(mask);
+  return Promise.all(regions.map(async region => ({
+    ...region,
+    mask: region.mask ? await blobToDataUrl(region.mask) : null,
+  })));
+};
+
+const serializeBatch = (used: BlobCache, items: BatchItem[]): StoredBatchItem[] =>
+  items.map(item => ({
+    id: item.id,
+    file: item.file,
+    mask: item.mask ? cachedBlob(used, `${item.id}:mask`, item.mask) : null,
+    image: item.status === 'done' && item.imageUrl ? cachedBlob(used, item.id, item.imageUrl) : null,
+    notes: item.notes,
+    error: item.status === 'failed' ? item.error : null,
+  }));
+
+const hydrateBatch = (items: StoredBatchItem[]): Promise<BatchItem[]> =>
+  Promise.all(items.map(async item => ({
+    id: item.id,
+    file: item.file,
+    previewUrl: URL.createObjectURL(item.file),
+    mask: item.mask ? await blobToDataUrl(item.mask) : null,
+    status: item.image ? 'done' as const : item.error ? 'failed' as const : 'idle' as const,
+    imageUrl: item.image ? await blobToDataUrl(item.image) : null,
+    notes: item.notes,
+    error: item.error,
+  })));
+
+// Converts the live editor state into something IndexedDB can store
+export const serializeProject = (
+  meta: { id: string; name: string; createdAt: number },
+  step: AppStep,
+  state: DesignState
+): ProjectRecord => {
+  const used: BlobCache = new Map();
+  const record: ProjectRecord = {
+    ...meta,
+    updatedAt: Date.now(),
+    step,
+    references: state.references.map(ref => ({
+      id: ref.id,
+      file: ref.file,
+      description: ref.description,
+      roles: ref.roles,
+      weight: ref.weight,
+      crop: ref.crop,
+      palette: ref.palette,
+      pinnedColors: ref.pinnedColors,
+    })),
+    targetImage: state.targetImage,
+    maskImage: state.maskImageBase64 ? cachedBlob(used, `${meta.id}:mask`, state.maskImageBase64) : null,
+    regions: serializeRegions(used, meta.id, state.regions),
+    userPrompt: state.userPrompt,
+    promptOptions: state.promptOptions,
+    generations: state.generations.map(node => ({
+      id: node.id,
+      parentId: node.parentId,
+      parentVariantId: node.parentVariantId,
+      createdAt: node.createdAt,
+      targetImage: node.targetImage,
+      maskImage: cachedBlob(used, `${node.id}:mask`, node.maskImageBase64),
+      regions: serializeRegions(used, node.id, node.regions),
+      prompt: node.prompt,
+      referenceIds: node.referenceIds,
+      promptOptions: node.promptOptions,
+      providerId: node.providerId,
+      model: node.model,
+      variants: serializeVariants(used, node.variants),
+    })),
+    activeGenerationId: state.activeGenerationId,
+    selectedVariantId: state.selectedVariantId,
+    refineSource: state.refineSource,
+    batch: serializeBatch(used, state.batch),
+  };
+  blobCache = used;
+  return record;
+};
+
+const hydrateGeneration = async (node: StoredGeneration): Promise<GenerationNode> => {
+  const maskImageBase64 = await blobToDataUrl(node.maskImage);
+  return {
+    id: node.id,
+    parentId: node.parentId,
+    parentVariantId: node.parentVariantId,
+    createdAt: node.createdAt,
+    targetImage: node.targetImage,
+    maskImageBase64,
+    regions: await hydrateRegions(node.regions, maskImageBase64),
+    prompt: node.prompt,
+    referenceIds: node.referenceIds,
+    promptOptions: { ...DEFAULT_PROMPT_OPTIONS, ...node.promptOptions },
+    providerId: node.providerId,
+    model: node.model,
+    variants: await hydrateVariants(node.variants),
+  };
+};
+
+// Frees the preview URLs and cached blobs of a project that is being closed
+export const releaseProject = (state: DesignState): void => {
+  state.references.forEach(ref => URL.revokeObjectURL(ref.previewUrl));
+  if (state.targetImagePreview) URL.revokeObjectURL(state.targetImagePreview);
+  state.batch.forEach(item => URL.revokeObjectURL(item.previewUrl));
+  blobCache = new Map();
+};
+
+// Rebuilds preview URLs and data URLs from a stored project
+export const hydrateProject = async (record: ProjectRecord): Promise<DesignState> => {
+  const maskImageBase64 = record.maskImage ? await blobToDataUrl(record.maskImage) : null;
+  return {
+    references: record.references.map(ref => ({
+      ...ref,
+      previewUrl: URL.createObjectURL(ref.file),
+      roles: ref.roles || [],
+      weight: ref.weight || DEFAULT_REFERENCE_WEIGHT,
+      crop: ref.crop || null,
+      palette: ref.palette || null,
+      pinnedColors: ref.pinnedColors || [],
+    })),
+    targetImage: record.targetImage,
+    targetImagePreview: record.targetImage ? URL.createObjectURL(record.targetImage) : null,
+    maskImageBase64,
+    regions: await hydrateRegions(record.regions, maskImageBase64),
+    userPrompt: record.userPrompt,
+    promptOptions: { ...DEFAULT_PROMPT_OPTIONS, ...record.promptOptions },
+    isGenerating: false,
+    generations: await Promise.all(record.generations.map(hydrateGeneration)),
+    activeGenerationId: record.activeGenerationId,
+    selectedVariantId: record.selectedVariantId,
+    refineSource: record.refineSource,
+    error: null,
+    batch: await hydrateBatch(record.batch || []),
+  };
+};
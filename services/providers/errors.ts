@@ -0,0 +1,41 @@
+import { GenerationErrorKind } from "../../types";
+
+// Failures are classified so the UI can say what to do about them and the
+// design service knows which ones are worth retrying.
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  // Set when the server said how long to wait, e.g. from Retry-After
+  retryAfterMs: number | null;
+  // What the model said instead of producing an image, which usually explains a refusal
+  modelText: string | null;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    options: { retryAfterMs?: number | null; modelText?: string | null } = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.modelText = options.modelText ?? null;
+  }
+}
+
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+export const isRetryable = (error: GenerationError): boolean => RETRYABLE_KINDS.includes(error.kind);
+
+// Best-effort classification for errors that didn't come from a provider as a GenerationError
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const err = error as { name?: string; message?: string } | null;
+  const message = err?.message || "Failed to generate design.";
+  if (err?.name === 'AbortError') return new GenerationError('cancelled', "Generation was cancelled.");
+  if (err?.name === 'TypeError' && /fetch|network/i.test(message)) return new GenerationError('network', message);
+  if (/api key/i.test(message)) return new GenerationError('missing-key', message);
+  if (/quota|rate limit|too many requests|resource.?exhausted/i.test(message)) return new GenerationError('rate-limit', message);
+  if (/safety|blocked/i.test(message)) return new GenerationError('safety', message);
+  if (/too large|payload/i.test(message)) return new GenerationError('payload-too-large', message);
+  return new GenerationError('unknown', message);
+};
@@ -0,0 +1,12 @@
+import { ModelOption } from "./types";
+
+// Shared by the browser provider and the API server, which only accepts these models
+export const GEMINI_MODELS: ModelOption[] = [
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)' },
+];
+
+export const DEFAULT_GEMINI_MODEL = GEMINI_MODELS[0].id;
+
+// Region detection returns JSON rather than an image, so it uses a text model
+export const GEMINI_DETECTION_MODEL = 'gemini-2.5-flash';
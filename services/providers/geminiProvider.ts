@@ -0,0 +1,93 @@
+import { GenerationErrorKind } from "../../types";
+import { GenerationError } from "./errors";
+import { DEFAULT_GEMINI_MODEL, GEMINI_MODELS } from "./geminiModels";
+import {
+  DetectedRegion, DetectionRequest, GenerateOptions, GenerationRequest, GenerationResult, ImageGenerationProvider,
+} from "./types";
+
+// Requests go through our own API server so the Gemini key never reaches the browser
+const GENERATE_ENDPOINT = '/api/generate';
+const DETECT_ENDPOINT = '/api/detect';
+
+const KNOWN_CODES: GenerationErrorKind[] = [
+  'missing-key', 'rate-limit', 'safety', 'text-only', 'network', 'payload-too-large', 'timeout', 'server',
+];
+
+// The server sends a `code` for failures it understands; fall back to the status otherwise
+const errorKindFor = (status: number, code: unknown): GenerationErrorKind => {
+  if (KNOWN_CODES.includes(code as GenerationErrorKind)) return code as GenerationErrorKind;
+  if (status === 413) return 'payload-too-large';
+  if (status === 429) return 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Posts to the API server and turns any failure into a GenerationError
+const postJson = async (endpoint: string, payload: unknown, signal?: AbortSignal): Promise<any> => {
+  let response: Response;
+  let body: any;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+    body = await response.json().catch(() => null);
+  } catch (err) {
+    if (signal?.aborted) throw signal.reason;
+    throw new GenerationError('network', "Could not reach the generation server. Is it running?");
+  }
+
+  if (!response.ok) {
+    const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+    throw new GenerationError(
+      errorKindFor(response.status, body?.code),
+      body?.error || `Request failed with status ${response.status}.`,
+      {
+        retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : null,
+        modelText: body?.text || null,
+      }
+    );
+  }
+  return body;
+};
+
+export const geminiProvider: ImageGenerationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Photorealistic inpainting with Gemini image models. Requires the API server to be running.',
+  models: GEMINI_MODELS,
+  defaultModel: DEFAULT_GEMINI_MODEL,
+
+  generate: async (request: GenerationRequest, options: GenerateOptions = {}): Promise<GenerationResult> => {
+    const { signal } = options;
+    const startedAt = performance.now();
+    const { variantIndex, ...payload } = request;
+    const body = await postJson(GENERATE_ENDPOINT, payload, signal);
+
+    const images: string[] = body?.images || [];
+    const text: string | null = body?.text || null;
+    if (images.length === 0) {
+      throw new GenerationError('text-only', text
+        ? "The model replied with text instead of an image."
+        : "No image was generated and the model gave no explanation.", { modelText: text });
+    }
+
+    return {
+      images,
+      text,
+      metadata: {
+        providerId: 'gemini',
+        model: request.model,
+        aspectRatio: request.aspectRatio,
+        durationMs: Math.round(performance.now() - startedAt),
+      },
+    };
+  },
+
+  detectRegions: async (request: DetectionRequest, options: GenerateOptions = {}): Promise<DetectedRegion[]> => {
+    const body = await postJson(DETECT_ENDPOINT, request, options.signal);
+    return body?.regions || [];
+  },
+};
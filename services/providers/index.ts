@@ -0,0 +1,19 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { ImageGenerationProvider } from "./types";
+
+export const PROVIDERS: ImageGenerationProvider[] = [geminiProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const getProvider = (id: string): ImageGenerationProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown image generation provider "${id}".`);
+  return provider;
+};
+
+export { GenerationError, isRetryable, toGenerationError } from "./errors";
+export type {
+  ImageGenerationProvider, GenerateOptions, GenerationRequest, GenerationResult, GenerationMetadata, InlineImage, ModelOption,
+  DetectedElement, DetectedRegion, DetectionRequest,
+} from "./types";
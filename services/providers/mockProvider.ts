@@ -0,0 +1,123 @@
+import { loadImage } from "../../utils";
+import {
+  DetectedRegion, DetectionRequest, GenerateOptions, GenerationRequest, GenerationResult, ImageGenerationProvider, InlineImage,
+} from "./types";
+
+// Simulated latency so loading states can be seen during demos
+const MOCK_LATENCY_MS = 800;
+const TINT_STRENGTH = 0.55;
+
+// FNV-1a, used to pick a stable tint colour from the request
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hueToRgb = (hue: number): [number, number, number] => {
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (0.5 - 0.5 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+const simulateLatency = (signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+};
+
+const rectangle = (left: number, top: number, right: number, bottom: number) => [
+  { x: left, y: top },
+  { x: right, y: top },
+  { x: right, y: bottom },
+  { x: left, y: bottom },
+];
+
+// A typical ground-floor shopfront: a facade with a signage band above two
+// windows either side of a central door
+const MOCK_DETECTIONS: DetectedRegion[] = [
+  { element: 'facade', polygon: rectangle(0.05, 0.45, 0.95, 0.95) },
+  { element: 'signage', polygon: rectangle(0.08, 0.47, 0.92, 0.56) },
+  { element: 'window', polygon: rectangle(0.1, 0.6, 0.38, 0.88) },
+  { element: 'window', polygon: rectangle(0.62, 0.6, 0.9, 0.88) },
+  { element: 'door', polygon: rectangle(0.43, 0.6, 0.57, 0.95) },
+];
+
+// Offline stand-in for a real model. It tints the masked area of the target with
+// a colour derived from the prompt and variant index, so the same request always
+// produces the same image and the whole flow works without a network or API key.
+export const mockProvider: ImageGenerationProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'Tints the masked area locally. For development, demos and tests; no API key needed.',
+  models: [
+    { id: 'mock-tint', label: 'Mask tint' },
+  ],
+  defaultModel: 'mock-tint',
+
+  generate: async (request: GenerationRequest, options: GenerateOptions = {}): Promise<GenerationResult> => {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    const startedAt = performance.now();
+    const [target, mask] = await Promise.all([
+      loadImage(toDataUrl(request.target)),
+      loadImage(toDataUrl(request.mask)),
+    ]);
+
+    const width = target.naturalWidth;
+    const height = target.naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+
+    ctx.drawImage(mask, 0, 0, width, height);
+    const maskPixels = ctx.getImageData(0, 0, width, height).data;
+    ctx.drawImage(target, 0, 0, width, height);
+    const output = ctx.getImageData(0, 0, width, height);
+
+    const [r, g, b] = hueToRgb(hashString(`${request.prompt}#${request.variantIndex}`) % 360);
+    // Grey mask edges get a proportionally lighter tint, as the real model is asked to blend them
+    for (let i = 0; i < output.data.length; i += 4) {
+      const strength = TINT_STRENGTH * maskPixels[i] / 255;
+      if (strength === 0) continue;
+      output.data[i] += (r - output.data[i]) * strength;
+      output.data[i + 1] += (g - output.data[i + 1]) * strength;
+      output.data[i + 2] += (b - output.data[i + 2]) * strength;
+    }
+    ctx.putImageData(output, 0, 0);
+
+    await simulateLatency(signal);
+
+    const tint = '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+    return {
+      images: [canvas.toDataURL('image/png')],
+      text: `Mock design: tinted the masked area ${tint} at ${Math.round(TINT_STRENGTH * 100)}% strength.`,
+      metadata: {
+        providerId: 'mock',
+        model: request.model,
+        aspectRatio: request.aspectRatio,
+        durationMs: Math.round(performance.now() - startedAt),
+      },
+    };
+  },
+
+  // Always reports the same layout, whatever the photo, so the flow can be tested offline
+  detectRegions: async (_request: DetectionRequest, options: GenerateOptions = {}): Promise<DetectedRegion[]> => {
+    options.signal?.throwIfAborted();
+    await simulateLatency(options.signal);
+    return MOCK_DETECTIONS.map(region => ({ ...region, polygon: region.polygon.map(p => ({ ...p })) }));
+  },
+};
@@ -0,0 +1,75 @@
+// Contract between the design service and whatever backend turns a masked
+// photo into a new design. Images travel as raw base64 (no data URL prefix).
+
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface GenerationRequest {
+  model: string;
+  prompt: string;
+  target: InlineImage;
+  mask: InlineImage;
+  references: InlineImage[];
+  // One mask per named region, sent after the references. Empty when the
+  // whole mask is a single region.
+  regionMasks: InlineImage[];
+  // The exact sign lettering at its size and position, sent last; null when no signage is set
+  signageGuide: InlineImage | null;
+  aspectRatio: string;
+  // Position of this request within a batch of variants. Providers that can't
+  // seed their output may ignore it.
+  variantIndex: number;
+}
+
+export interface GenerationMetadata {
+  providerId: string;
+  model: string;
+  aspectRatio: string;
+  durationMs: number;
+}
+
+export interface GenerationResult {
+  // Data URLs of every image the provider returned, best first
+  images: string[];
+  // Commentary returned with the images, if the provider produces any
+  text: string | null;
+  metadata: GenerationMetadata;
+}
+
+// Storefront elements the auto-detect action looks for
+export type DetectedElement = 'facade' | 'signage' | 'window' | 'door';
+
+export interface DetectionRequest {
+  image: InlineImage;
+}
+
+export interface DetectedRegion {
+  element: DetectedElement;
+  // Corners as fractions (0..1) of the image width and height
+  polygon: { x: number; y: number }[];
+}
+
+export interface GenerateOptions {
+  // Aborted when the user cancels or the attempt times out. Providers should
+  // stop work and reject with `signal.reason`.
+  signal?: AbortSignal;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+export interface ImageGenerationProvider {
+  id: string;
+  label: string;
+  description: string;
+  models: ModelOption[];
+  defaultModel: string;
+  // Failures should be thrown as GenerationError so they can be retried and explained
+  generate: (request: GenerationRequest, options?: GenerateOptions) => Promise<GenerationResult>;
+  // Finds the main storefront elements in a photo. Optional; providers without it can't auto-detect masks.
+  detectRegions?: (request: DetectionRequest, options?: GenerateOptions) => Promise<DetectedRegion[]>;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AppStep } from '../types';
+import { formatRoute, parseRoute, resolveStep, StepPrerequisites } from './routeService';
+
+const ready: StepPrerequisites = { hasReferences: true, hasTarget: true, hasMask: true, hasGeneration: true };
+
+describe('parseRoute', () => {
+  it('reads a step on its own', () => {
+    expect(parseRoute('#/edit')).toEqual({ step: AppStep.WORKSPACE, projectId: null });
+  });
+
+  it('reads a project link with and without a step', () => {
+    expect(parseRoute('#/projects/k3j9x2a/result')).toEqual({ step: AppStep.RESULT, projectId: 'k3j9x2a' });
+    expect(parseRoute('#/projects/k3j9x2a')).toEqual({ step: null, projectId: 'k3j9x2a' });
+  });
+
+  it('round-trips what formatRoute writes', () => {
+    expect(parseRoute(formatRoute(AppStep.BATCH, 'k3j9x2a'))).toEqual({ step: AppStep.BATCH, projectId: 'k3j9x2a' });
+  });
+});
+
+describe('resolveStep', () => {
+  it('keeps a step whose prerequisites are met', () => {
+    expect(resolveStep(AppStep.RESULT, ready)).toBe(AppStep.RESULT);
+  });
+
+  it('sends the result step back to the editor without a target photo', () => {
+    expect(resolveStep(AppStep.RESULT, { ...ready, hasTarget: false })).toBe(AppStep.WORKSPACE);
+  });
+
+  it('sends the result step back to the editor without a mask', () => {
+    expect(resolveStep(AppStep.RESULT, { ...ready, hasMask: false })).toBe(AppStep.WORKSPACE);
+  });
+
+  it('sends the result step back to the editor without a generation', () => {
+    expect(resolveStep(AppStep.RESULT, { ...ready, hasGeneration: false })).toBe(AppStep.WORKSPACE);
+  });
+
+  it('lets the editor open without a photo, since that is where it is added', () => {
+    expect(resolveStep(AppStep.WORKSPACE, { ...ready, hasTarget: false, hasMask: false })).toBe(AppStep.WORKSPACE);
+  });
+
+  it('falls all the way back to the references when there are none', () => {
+    const empty = { hasReferences: false, hasTarget: false, hasMask: false, hasGeneration: false };
+    expect(resolveStep(AppStep.RESULT, empty)).toBe(AppStep.REFERENCES);
+    expect(resolveStep(AppStep.BATCH, empty)).toBe(AppStep.REFERENCES);
+  });
+});
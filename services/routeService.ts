@@ -0,0 +1,54 @@
+import { AppStep } from "../types";
+
+// Hash-based routes, so deep links and browser history work on static hosting
+// without server rewrites. A route names the step and, optionally, the saved
+// project it belongs to:
+//
+//   #/edit                    the edit step of whatever project is open
+//   #/projects/k3j9x2a/result the result step of a specific saved project
+
+export interface Route {
+  // Null when the hash doesn't name a step, e.g. a bare project link
+  step: AppStep | null;
+  projectId: string | null;
+}
+
+const STEP_PATHS: Record<AppStep, string> = {
+  [AppStep.REFERENCES]: 'style',
+  [AppStep.WORKSPACE]: 'edit',
+  [AppStep.RESULT]: 'result',
+  [AppStep.BATCH]: 'batch',
+};
+
+const stepFromPath = (path: string | undefined): AppStep | null => {
+  const entry = Object.entries(STEP_PATHS).find(([, value]) => value === path);
+  return entry ? Number(entry[0]) as AppStep : null;
+};
+
+export const parseRoute = (hash: string): Route => {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts[0] === 'projects' && parts[1]) {
+    return { step: stepFromPath(parts[2]), projectId: parts[1] };
+  }
+  return { step: stepFromPath(parts[0]), projectId: null };
+};
+
+export const formatRoute = (step: AppStep, projectId: string | null): string =>
+  projectId ? `#/projects/${encodeURIComponent(projectId)}/${STEP_PATHS[step]}` : `#/${STEP_PATHS[step]}`;
+
+// What the open project has so far, for deciding which steps it can show
+export interface StepPrerequisites {
+  hasReferences: boolean;
+  hasTarget: boolean;
+  hasMask: boolean;
+  hasGeneration: boolean;
+}
+
+// Steps can be reached from the URL without passing through the ones before
+// them, so send the user back to the first step whose prerequisites are missing.
+// The photo and mask are added in the editor, so it only needs references.
+export const resolveStep = (step: AppStep, state: StepPrerequisites): AppStep => {
+  if (step === AppStep.RESULT && !(state.hasTarget && state.hasMask && state.hasGeneration)) step = AppStep.WORKSPACE;
+  if ((step === AppStep.WORKSPACE || step === AppStep.BATCH) && !state.hasReferences) step = AppStep.REFERENCES;
+  return step;
+};
@@ -0,0 +1,61 @@
+import { AppSettings, GenerationSettings } from "../types";
+import { DEFAULT_PROVIDER_ID, PROVIDERS, getProvider } from "./providers";
+
+const SETTINGS_KEY = 'storefront-ai:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  generation: {
+    providerId: DEFAULT_PROVIDER_ID,
+    model: getProvider(DEFAULT_PROVIDER_ID).defaultModel,
+    timeoutSeconds: 90,
+    maxRetries: 2,
+  },
+  upload: {
+    maxEdge: 2048,
+    format: 'image/jpeg',
+    quality: 0.9,
+    payloadBudgetMB: 15,
+  },
+};
+
+// A provider or model that no longer exists falls back to the default
+export const normalizeGenerationSettings = (stored: Partial<GenerationSettings> | undefined): GenerationSettings => {
+  const generation = { ...DEFAULT_SETTINGS.generation, ...stored };
+  const provider = PROVIDERS.find(p => p.id === generation.providerId);
+  if (!provider) {
+    generation.providerId = DEFAULT_SETTINGS.generation.providerId;
+    generation.model = DEFAULT_SETTINGS.generation.model;
+  } else if (!provider.models.some(m => m.id === generation.model)) {
+    generation.model = provider.defaultModel;
+  }
+  return generation;
+};
+
+export const isSameGenerationSettings = (a: GenerationSettings, b: GenerationSettings): boolean =>
+  a.providerId === b.providerId && a.model === b.model && a.timeoutSeconds === b.timeoutSeconds && a.maxRetries === b.maxRetries;
+
+// One line for confirmations, e.g. "Offline mock (Mask tint), 90s timeout, 2 retries"
+export const describeGenerationSettings = (generation: GenerationSettings): string => {
+  const provider = getProvider(generation.providerId);
+  const model = provider.models.find(m => m.id === generation.model)?.label ?? generation.model;
+  return `${provider.label} (${model}), ${generation.timeoutSeconds}s timeout, ${generation.maxRetries} retries`;
+};
+
+// Settings are merged over the defaults so new fields pick up sensible values
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    const generation = normalizeGenerationSettings(stored.generation);
+    const upload = { ...DEFAULT_SETTINGS.upload, ...stored.upload };
+    return { ...DEFAULT_SETTINGS, ...stored, generation, upload };
+  } catch (err) {
+    console.warn("Could not read saved settings, using defaults", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
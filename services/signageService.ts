@@ -0,0 +1,98 @@
+import { SignageSpec } from "../types";
+import { InlineImage } from "./providers";
+
+// Models misspell sign text that is only described in words, so the exact
+// wording is also drawn as a guide image: the text in the chosen font and
+// colour, at its size and position in the photo, on a plain background.
+
+export interface SignageFont {
+  id: string;
+  label: string;
+  // CSS font stack used for the preview and the guide image
+  family: string;
+  weight: number;
+  // How the lettering is described to the model
+  description: string;
+}
+
+export const SIGNAGE_FONTS: SignageFont[] = [
+  { id: 'sans', label: 'Modern sans', family: '"Helvetica Neue", Arial, sans-serif', weight: 700, description: 'a bold, modern sans-serif' },
+  { id: 'condensed', label: 'Condensed', family: 'Impact, "Arial Narrow", sans-serif', weight: 400, description: 'a tall, condensed sans-serif' },
+  { id: 'serif', label: 'Classic serif', family: 'Georgia, "Times New Roman", serif', weight: 700, description: 'a classic bold serif' },
+  { id: 'slab', label: 'Slab serif', family: 'Rockwell, "Roboto Slab", "Courier New", serif', weight: 700, description: 'a sturdy slab serif' },
+  { id: 'script', label: 'Script', family: '"Brush Script MT", "Segoe Script", cursive', weight: 400, description: 'a flowing, hand-lettered script' },
+  { id: 'typewriter', label: 'Typewriter', family: '"Courier New", Courier, monospace', weight: 700, description: 'a typewriter-style monospaced face' },
+];
+
+export const DEFAULT_SIGNAGE: SignageSpec = {
+  text: '',
+  fontId: SIGNAGE_FONTS[0].id,
+  color: '#FFFFFF',
+  box: null,
+};
+
+// Lettering fills at most this share of the box, so it doesn't touch the edges
+const BOX_FILL = 0.9;
+const LINE_HEIGHT = 1.15;
+// Lines are measured at this font size, then scaled to fit
+const REFERENCE_SIZE = 100;
+
+export const findSignageFont = (id: string): SignageFont =>
+  SIGNAGE_FONTS.find(font => font.id === id) || SIGNAGE_FONTS[0];
+
+export const signageLines = (signage: SignageSpec): string[] =>
+  signage.text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Only signage with both wording and a placement is sent
+export const hasSignage = (signage: SignageSpec): boolean =>
+  signageLines(signage).length > 0 && !!signage.box;
+
+// Draws the lettering as large as fits in the box, centred, one row per line.
+// `width` and `height` are the size of the photo the box is relative to.
+export const drawSignageText = (ctx: CanvasRenderingContext2D, signage: SignageSpec, width: number, height: number): void => {
+  const lines = signageLines(signage);
+  if (lines.length === 0 || !signage.box) return;
+  const font = findSignageFont(signage.fontId);
+  const boxX = signage.box.x * width;
+  const boxY = signage.box.y * height;
+  const boxWidth = signage.box.width * width;
+  const boxHeight = signage.box.height * height;
+
+  // Measure at a reference size, then scale to whichever of width or height runs out first
+  const setSize = (size: number) => { ctx.font = `${font.weight} ${size}px ${font.family}`; };
+  setSize(REFERENCE_SIZE);
+  const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const size = Math.max(1, Math.min(
+    boxHeight * BOX_FILL / (lines.length * LINE_HEIGHT),
+    widest > 0 ? REFERENCE_SIZE * boxWidth * BOX_FILL / widest : Infinity
+  ));
+
+  ctx.save();
+  setSize(size);
+  ctx.fillStyle = signage.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const top = boxY + boxHeight / 2 - (lines.length - 1) * size * LINE_HEIGHT / 2;
+  lines.forEach((line, i) => ctx.fillText(line, boxX + boxWidth / 2, top + i * size * LINE_HEIGHT));
+  ctx.restore();
+};
+
+// Light lettering goes on black and dark lettering on white, so it always stands out
+const guideBackground = (hex: string): string => {
+  const value = parseInt(hex.slice(1), 16);
+  const luminance = 0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255);
+  return luminance > 128 ? '#000000' : '#FFFFFF';
+};
+
+// Renders the guide at the size of the encoded target, so positions line up with it
+export const renderSignageGuide = (signage: SignageSpec, width: number, height: number): InlineImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  ctx.fillStyle = guideBackground(signage.color);
+  ctx.fillRect(0, 0, width, height);
+  drawSignageText(ctx, signage, width, height);
+  return { mimeType: 'image/png', data: canvas.toDataURL('image/png').split(',')[1] };
+};
@@ -0,0 +1,184 @@
+import { PromptOptions, PromptTemplate } from "../types";
+import { generateId } from "../utils";
+import { DEFAULT_SIGNAGE } from "./signageService";
+
+const TEMPLATES_KEY = 'storefront-ai:templates';
+
+export const DEFAULT_TEMPLATE_ID = 'builtin:general';
+
+export const DEFAULT_PROMPT_OPTIONS: PromptOptions = {
+  templateId: DEFAULT_TEMPLATE_ID,
+  shopName: '',
+  extraConstraints: '',
+  pinnedTargetColors: [],
+  signage: DEFAULT_SIGNAGE,
+};
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'userRequest', description: 'The Design Instructions typed for this run' },
+  { name: 'shopName', description: "The project's shop name" },
+  { name: 'references', description: 'Each reference image with its roles, influence and notes' },
+  { name: 'regions', description: 'Each named mask region with its own instructions' },
+  { name: 'signage', description: 'The exact sign wording, font and color, and how to use the signage guide image' },
+  { name: 'constraints', description: 'The standard inpainting constraints, the extra ones set on the project and any pinned colors' },
+];
+
+const STANDARD_CONSTRAINTS = [
+  'PERSPECTIVE LOCK: You must absolutely maintain the original camera angle, lens distortion, and vanishing points of the TARGET IMAGE. The result must perfectly overlay the original.',
+  `MASK ADHERENCE:
+   - BLACK AREAS: Do NOT modify any pixel where the mask is black. The street, sidewalk, neighboring buildings, and upper floors must remain identical to the TARGET IMAGE.
+   - WHITE AREAS: Only generate new design content within the white areas of the mask.
+   - GREY AREAS: Soft edges. Blend the new design gradually into the original, keeping more of the TARGET IMAGE the darker the grey.`,
+  'REALISM: The lighting (sun direction, shadows, ambient occlusion) of the new design must match the original photo perfectly.',
+  'STYLE TRANSFER: Apply the architectural details and materials from the REFERENCE IMAGES to the renovated section.',
+];
+
+// The instruction block every preset shares. Shop-type presets add a guidance
+// section; the general one is the original fixed prompt.
+const buildPresetBody = (guidance?: string) => `You are an expert architectural designer specializing in realistic retail storefront renovations.
+
+TASK:
+Renovate the storefront shown in the "TARGET IMAGE" based on the "USER REQUEST" and "REFERENCE IMAGES".
+You must perform a photorealistic INPAINTING operation constrained by the "MASK IMAGE".
+
+INPUT IMAGES LEGEND:
+1. TARGET IMAGE: The first image provided. The original photo of the shop.
+2. MASK IMAGE: The second image provided. A greyscale guide (White = Renovate, Black = Protect, Grey = soft edge between the two).
+3. REFERENCE IMAGES: The images after the mask, one for each entry under REFERENCE DESCRIPTIONS. Use these for materials, colors, and style.
+4. REGION MASKS: Any images after the reference images, one for each entry under DESIGN REGIONS (White = that region).
+5. SIGNAGE GUIDE: The last image, only when SIGNAGE TEXT gives wording. The exact sign lettering at its size and position.
+
+SHOP NAME: {{shopName}}
+
+USER REQUEST: "{{userRequest}}"
+${guidance ? `\nSHOP TYPE GUIDANCE:\n${guidance}\n` : ''}
+STRICT CONSTRAINTS:
+{{constraints}}
+
+DESIGN REGIONS:
+{{regions}}
+
+SIGNAGE TEXT:
+{{signage}}
+
+REFERENCE DESCRIPTIONS:
+{{references}}`;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General storefront',
+    body: buildPresetBody(),
+    builtIn: true,
+  },
+  {
+    id: 'builtin:cafe',
+    name: 'Café',
+    body: buildPresetBody(`This is a café. Favour warm, inviting materials such as timber, brick and brass.
+Use large clear glazing so the counter and seating read from the street, with warm interior lighting.
+Leave room for a projecting sign or awning and, where the pavement allows, a few outdoor tables.`),
+    builtIn: true,
+  },
+  {
+    id: 'builtin:pharmacy',
+    name: 'Pharmacy',
+    body: buildPresetBody(`This is a pharmacy. Keep the facade clean, bright and trustworthy: light colours, even lighting and uncluttered glazing.
+Signage must be highly legible. Include a green cross sign unless the user request says otherwise.
+The entrance must look step-free and easy to find.`),
+    builtIn: true,
+  },
+  {
+    id: 'builtin:boutique',
+    name: 'Boutique',
+    body: buildPresetBody(`This is a fashion boutique. Treat the shop window as a display case with focused lighting on the merchandise.
+Prefer refined, minimal materials and a restrained palette that lets the products stand out.
+Signage should be elegant and understated rather than large.`),
+    builtIn: true,
+  },
+  {
+    id: 'builtin:restaurant',
+    name: 'Restaurant',
+    body: buildPresetBody(`This is a restaurant. Create an atmosphere that suits evening dining: warm lighting, glimpses of the dining room and a clear, welcoming entrance.
+Include a place for a menu display near the door.
+Signage should be visible from a distance and lit at night.`),
+    builtIn: true,
+  },
+];
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as PromptTemplate[];
+    return stored
+      .filter(t => t && typeof t.id === 'string' && typeof t.body === 'string')
+      .map(t => ({ ...t, builtIn: false }));
+  } catch (err) {
+    console.warn("Could not read saved prompt templates", err);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]): void => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const createTemplate = (name: string, body: string): PromptTemplate => ({
+  id: generateId(),
+  name,
+  body,
+  builtIn: false,
+});
+
+// A project may point at a custom template that has since been deleted
+export const findTemplate = (templates: PromptTemplate[], id: string): PromptTemplate =>
+  templates.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+export interface PromptInput {
+  userRequest: string;
+  template: PromptTemplate;
+  options: PromptOptions;
+}
+
+const formatConstraints = (extraConstraints: string, colorConstraint: string | null): string => {
+  const extra = extraConstraints
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+  if (colorConstraint) extra.push(colorConstraint);
+  return [...STANDARD_CONSTRAINTS, ...extra].map((c, i) => `${i + 1}. ${c}`).join('\n');
+};
+
+// Parts of the prompt built from the request's images rather than the project options
+export interface PromptSections {
+  references: string;
+  // Null when the mask is a single region without instructions
+  regions: string | null;
+  // Null when no signage text is placed
+  signage: string | null;
+  colorConstraint: string | null;
+}
+
+// Fills {{variable}} placeholders. Unknown names are left as written so typos stay visible.
+export const renderPrompt = (input: PromptInput, sections: PromptSections): string => {
+  const values: Record<string, string> = {
+    userRequest: input.userRequest.trim() || 'Follow the instructions for each design region.',
+    shopName: input.options.shopName.trim() || 'Not specified',
+    references: sections.references,
+    regions: sections.regions || 'None. Apply the user request to the whole white area of the mask.',
+    signage: sections.signage || 'None specified.',
+    constraints: formatConstraints(input.options.extraConstraints, sections.colorConstraint),
+  };
+  let prompt = input.template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : match
+  );
+  // Templates saved before these sections existed don't mention them, but the model still needs them explained
+  const mentions = (name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(input.template.body);
+  if (sections.regions && !mentions('regions')) {
+    prompt += `\n\nDESIGN REGIONS:\n${sections.regions}`;
+  }
+  if (sections.signage && !mentions('signage')) {
+    prompt += `\n\nSIGNAGE TEXT:\n${sections.signage}`;
+  }
+  return prompt;
+};
@@ -0,0 +1,181 @@
+import { UploadFormat, UploadSettings } from "../types";
+import { blobToDataUrl, loadImage } from "../utils";
+import { InlineImage } from "./providers";
+
+// Uploads are normalised before they reach a request: EXIF rotation is baked
+// into the pixels, large photos are scaled down and everything is re-encoded
+// in one format, so a handful of phone photos no longer adds up to a huge payload.
+
+// Decoded image with its upright size
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+}
+
+export interface EncodedImage {
+  image: InlineImage;
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+// Reads the EXIF orientation tag (1-8) from a JPEG. Anything else, or a file
+// without the tag, is reported as 1 (already upright).
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  if (file.type !== 'image/jpeg') return 1;
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0", followed by a TIFF header
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Browsers apply EXIF orientation while decoding when asked to, so the pixels
+// drawn from the result are upright and line up with what the <img> shows.
+const decodeUpright = async (file: Blob): Promise<DecodedImage> => {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+  } catch {
+    // <img> honours EXIF orientation by default
+    const url = URL.createObjectURL(file);
+    try {
+      const img = await loadImage(url);
+      return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => {} };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image.")), format, quality);
+  });
+};
+
+const renderImage = async (file: Blob, maxEdge: number, format: UploadFormat, quality: number) => {
+  const decoded = await decodeUpright(file);
+  try {
+    const scale = Math.min(1, maxEdge / Math.max(decoded.width, decoded.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(decoded.width * scale));
+    canvas.height = Math.max(1, Math.round(decoded.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    // JPEG has no alpha, so transparent areas would otherwise turn black
+    if (format === 'image/jpeg') {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(decoded.source, 0, 0, canvas.width, canvas.height);
+    // Browsers that can't encode the format fall back to PNG, so the blob's type is the truth
+    const blob = await canvasToBlob(canvas, format, quality);
+    return { blob, width: canvas.width, height: canvas.height, resized: scale < 1 };
+  } finally {
+    decoded.close();
+  }
+};
+
+const renameForType = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, '') || 'image'}.${EXTENSIONS[type] || 'png'}`;
+
+// Used for reference uploads, which are only ever sent to the model
+export const preprocessUpload = async (file: File, settings: UploadSettings): Promise<File> => {
+  const orientation = await readExifOrientation(file);
+  const { blob, resized } = await renderImage(file, settings.maxEdge, settings.format, settings.quality);
+  // Re-encoding an upright, small enough file in the same format would only cost quality
+  if (!resized && orientation === 1 && file.type === blob.type && file.size <= blob.size) {
+    return file;
+  }
+  return new File([blob], renameForType(file.name, blob.type), { type: blob.type });
+};
+
+// Used for the target photo, which stays at full resolution for compositing.
+// Only rotated photos are rewritten; the request copy is scaled by encodeForRequest.
+export const normalizeOrientation = async (file: File): Promise<File> => {
+  if (await readExifOrientation(file) === 1) return file;
+  const { blob } = await renderImage(file, Infinity, 'image/jpeg', 0.95);
+  return new File([blob], renameForType(file.name, blob.type), { type: blob.type });
+};
+
+// The target is re-encoded for every request and every size estimate, so results are cached per file
+const requestCache = new WeakMap<File, Map<string, Promise<EncodedImage>>>();
+
+export const encodeForRequest = (file: File, settings: UploadSettings): Promise<EncodedImage> => {
+  const key = `${settings.maxEdge}:${settings.format}:${settings.quality}`;
+  let cache = requestCache.get(file);
+  if (!cache) {
+    cache = new Map();
+    requestCache.set(file, cache);
+  }
+  let encoded = cache.get(key);
+  if (!encoded) {
+    encoded = renderImage(file, settings.maxEdge, settings.format, settings.quality).then(async ({ blob, width, height }) => {
+      const dataUrl = await blobToDataUrl(blob);
+      return { image: { mimeType: blob.type, data: dataUrl.split(',')[1] }, width, height };
+    });
+    // Don't keep failures around; the next attempt should try again
+    encoded.catch(() => cache!.delete(key));
+    cache.set(key, encoded);
+  }
+  return encoded;
+};
+
+// Scales the editor's full-resolution mask to the size of the encoded target.
+// Smoothing stays on: when scaling down it averages each edge into grey coverage,
+// which reads as a soft edge, where sampling single pixels would make it jagged.
+export const resizeMask = async (maskDataUrl: string, width: number, height: number): Promise<InlineImage> => {
+  const img = await loadImage(maskDataUrl);
+  if (img.naturalWidth === width && img.naturalHeight === height) {
+    return { mimeType: 'image/png', data: maskDataUrl.split(',')[1] };
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return { mimeType: 'image/png', data: canvas.toDataURL('image/png').split(',')[1] };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
@@ -0,0 +1,154 @@
+// Minimal ZIP writer and reader. Images are already compressed, so written
+// entries are stored without deflate, which keeps this small and fast. The
+// reader also accepts deflated entries, for archives re-zipped by other tools.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Names are made unique so entries with the same name don't overwrite each other when extracted
+const uniqueNames = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  return names.map(name => {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+    for (let i = 2; seen.has(candidate); i++) candidate = `${base} (${i})${extension}`;
+    seen.add(candidate);
+    return candidate;
+  });
+};
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const names = uniqueNames(entries.map(entry => entry.name));
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entries.length; index++) {
+    const name = encoder.encode(names[index]);
+    const data = new Uint8Array(await entries[index].data.arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    // Bit 11: the name is UTF-8
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014B50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    const record = new Uint8Array(46 + name.length);
+    record.set(new Uint8Array(header.buffer), 0);
+    record.set(name, 46);
+    central.push(record);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const inflate = async (data: Uint8Array): Promise<Blob> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+};
+
+// Reads every file entry from an archive; folders are skipped
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, unless the archive carries a comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+    if (view.getUint32(i, true) === 0x06054B50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("This file is not a valid zip archive.");
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(position, true) !== 0x02014B50) throw new Error("The zip archive is damaged.");
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    // The local header can carry a different extra field from the central one
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.push({ name, data: new Blob([data]) });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflate(data) });
+    } else {
+      throw new Error(`"${name}" uses a compression method that isn't supported.`);
+    }
+  }
+  return entries;
+};
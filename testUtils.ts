@@ -0,0 +1,73 @@
+import { vi } from 'vitest';
+
+// Browser APIs jsdom lacks, shared by the component tests. Every image is a
+// PHOTO_WIDTH x PHOTO_HEIGHT photo that loads as soon as its source is set.
+
+export const PHOTO_WIDTH = 40;
+export const PHOTO_HEIGHT = 30;
+// The first region colour, which the brush paints with
+const PAINT = [0xEF, 0x44, 0x44, 255];
+
+// jsdom has no canvas. This stand-in only tracks whether anything has been
+// painted on a canvas: reading it back gives solid paint or nothing, and
+// exporting it encodes how many pixels of the last image written were white.
+const paintedCanvases = new WeakSet<HTMLCanvasElement>();
+const writtenPixels = new WeakMap<HTMLCanvasElement, Uint8ClampedArray>();
+const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+
+const fakeContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const methods: Record<string, (...args: any[]) => unknown> = {
+    stroke: () => paintedCanvases.add(canvas),
+    fill: () => paintedCanvases.add(canvas),
+    clearRect: () => paintedCanvases.delete(canvas),
+    drawImage: (source: unknown) => {
+      if (source instanceof HTMLCanvasElement && paintedCanvases.has(source)) paintedCanvases.add(canvas);
+    },
+    getImageData: (_x: number, _y: number, width: number, height: number) => {
+      const data = new Uint8ClampedArray(width * height * 4);
+      if (paintedCanvases.has(canvas)) {
+        for (let i = 0; i < data.length; i += 4) data.set(PAINT, i);
+      }
+      return { data, width, height };
+    },
+    createImageData: (width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4), width, height }),
+    putImageData: (image: ImageData) => writtenPixels.set(canvas, image.data),
+    measureText: () => ({ width: 10 }),
+  };
+  return new Proxy({ canvas } as any, {
+    get: (target, key) => key in target ? target[key] : methods[key as string] || (() => {}),
+  });
+};
+
+export const maskDataUrl = (white: number, total: number) => `data:image/png;base64,${btoa(`white ${white}/${total}`)}`;
+
+export const stubBrowserApis = () => {
+  let nextUrl = 0;
+  URL.createObjectURL = vi.fn(() => `blob:test/${nextUrl++}`);
+  URL.revokeObjectURL = vi.fn();
+
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    if (!contexts.has(this)) contexts.set(this, fakeContext(this));
+    return contexts.get(this)! as any;
+  });
+  vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(function (this: HTMLCanvasElement) {
+    const pixels = writtenPixels.get(this);
+    if (!pixels) return 'data:image/png;base64,';
+    const total = pixels.length / 4;
+    let white = 0;
+    for (let i = 0; i < pixels.length; i += 4) if (pixels[i] === 255) white++;
+    return maskDataUrl(white, total);
+  });
+
+  // Images "load" as soon as a source is set
+  Object.defineProperty(HTMLImageElement.prototype, 'src', {
+    configurable: true,
+    get() { return this.getAttribute('src') || ''; },
+    set(value: string) {
+      this.setAttribute('src', value);
+      setTimeout(() => this.dispatchEvent(new Event('load')));
+    },
+  });
+  Object.defineProperty(HTMLImageElement.prototype, 'naturalWidth', { configurable: true, get: () => PHOTO_WIDTH });
+  Object.defineProperty(HTMLImageElement.prototype, 'naturalHeight', { configurable: true, get: () => PHOTO_HEIGHT });
+};
@@ -1,23 +1,275 @@
+export type ReferenceRole = 'material' | 'palette' | 'signage' | 'lighting' | 'awning' | 'mood';
+
+export type ReferenceWeight = 'subtle' | 'moderate' | 'strong';
+
+// Part of an image as fractions (0..1) of its width and height
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface ReferenceItem {
   id: string;
   file: File;
   previewUrl: string;
   description: string;
+  // What to take from the image; empty means the description decides
+  roles: ReferenceRole[];
+  weight: ReferenceWeight;
+  // Only this part of the image is sent to the model
+  crop: CropRegion | null;
+  // Dominant colours as hex, extracted in the browser; null until extracted
+  palette: string[] | null;
+  // Colours the generation must reproduce exactly
+  pinnedColors: string[];
+}
+
+// A named part of the mask with its own instructions, e.g. "Signage" or "Door".
+// The editor paints each region in its colour; `mask` is that region's binary
+// mask as a PNG data URL, null until something has been painted.
+export interface MaskRegion {
+  id: string;
+  name: string;
+  color: string;
+  instructions: string;
+  mask: string | null;
+}
+
+export type VariantStatus = 'pending' | 'done' | 'failed';
+
+export interface DesignVariant {
+  id: string;
+  status: VariantStatus;
+  imageUrl: string | null;
+  error: string | null;
+  // Text the model returned with the image, or its explanation when it returned no image
+  notes: string | null;
+  starred: boolean;
+}
+
+// One generation run: the inputs that were sent and the variants that came back.
+// Refining a variant starts a child node whose target is that variant's image.
+export interface GenerationNode {
+  id: string;
+  parentId: string | null;
+  parentVariantId: string | null;
+  createdAt: number;
+  targetImage: File;
+  maskImageBase64: string;
+  regions: MaskRegion[];
+  prompt: string;
+  referenceIds: string[];
+  promptOptions: PromptOptions;
+  providerId: string;
+  model: string;
+  variants: DesignVariant[];
+}
+
+export interface GenerationSettings {
+  providerId: string;
+  model: string;
+  // Per attempt; a timed out attempt counts as a transient failure and is retried
+  timeoutSeconds: number;
+  maxRetries: number;
+}
+
+export type GenerationErrorKind =
+  | 'missing-key'
+  | 'rate-limit'
+  | 'safety'
+  | 'text-only'
+  | 'network'
+  | 'payload-too-large'
+  | 'timeout'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+export interface GenerationFailure {
+  kind: GenerationErrorKind;
+  message: string;
+  // The model's own explanation, when it answered with text instead of an image
+  modelText?: string | null;
+}
+
+export type UploadFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+// How uploads are prepared before they're sent for generation
+export interface UploadSettings {
+  // Longest side in pixels; larger images are scaled down
+  maxEdge: number;
+  format: UploadFormat;
+  // 0..1, ignored for PNG
+  quality: number;
+  // Requests larger than this are refused before they're sent
+  payloadBudgetMB: number;
+}
+
+export interface AppSettings {
+  generation: GenerationSettings;
+  upload: UploadSettings;
+}
+
+// A prompt template fills {{variable}} placeholders when a request is built.
+// Built-in presets ship with the app; custom templates are saved per browser.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  builtIn: boolean;
+}
+
+// Exact sign wording, drawn as a guide image so the model copies it letter for letter
+export interface SignageSpec {
+  // One sign row per line
+  text: string;
+  fontId: string;
+  color: string;
+  // Where the lettering goes, as fractions of the target photo; null until placed
+  box: CropRegion | null;
+}
+
+// Per-project choices that feed the prompt template
+export interface PromptOptions {
+  templateId: string;
+  shopName: string;
+  // One extra constraint per line, appended to the standard ones
+  extraConstraints: string;
+  // Colours picked from the target photo that the design must keep exactly
+  pinnedTargetColors: string[];
+  signage: SignageSpec;
+}
+
+export type BatchItemStatus = 'idle' | 'queued' | 'running' | 'done' | 'failed';
+
+// One photo in a batch. Every photo shares the project's references and prompt
+// but has its own mask, and gets a single design.
+export interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  // Union mask as a PNG data URL; null until painted or detected
+  mask: string | null;
+  status: BatchItemStatus;
+  imageUrl: string | null;
+  notes: string | null;
+  error: GenerationFailure | null;
+}
+
+export interface RefineSource {
+  generationId: string;
+  variantId: string;
 }
 
 export interface DesignState {
   references: ReferenceItem[];
   targetImage: File | null;
   targetImagePreview: string | null;
+  // Union of every region, used for compositing and the mask outline
   maskImageBase64: string | null;
+  regions: MaskRegion[];
   userPrompt: string;
+  promptOptions: PromptOptions;
   isGenerating: boolean;
-  resultImageUrl: string | null;
-  error: string | null;
+  generations: GenerationNode[];
+  activeGenerationId: string | null;
+  selectedVariantId: string | null;
+  refineSource: RefineSource | null;
+  error: GenerationFailure | null;
+  batch: BatchItem[];
 }
 
 export enum AppStep {
   REFERENCES = 1,
   WORKSPACE = 2,
   RESULT = 3,
-}
\ No newline at end of file
+  // Outside the numbered flow: one design applied to many photos
+  BATCH = 4,
+}
+
+// Persisted form of a project. Files and blobs are stored directly in IndexedDB;
+// object URLs and data URLs are rebuilt when the project is opened.
+export interface StoredReference {
+  id: string;
+  file: File;
+  description: string;
+  // Missing on projects saved before reference roles existed
+  roles?: ReferenceRole[];
+  weight?: ReferenceWeight;
+  crop?: CropRegion | null;
+  palette?: string[] | null;
+  pinnedColors?: string[];
+}
+
+export interface StoredMaskRegion {
+  id: string;
+  name: string;
+  color: string;
+  instructions: string;
+  mask: Blob | null;
+}
+
+export interface StoredVariant {
+  id: string;
+  image: Blob;
+  starred: boolean;
+  notes?: string | null;
+}
+
+// Queued and running items are saved as not started
+export interface StoredBatchItem {
+  id: string;
+  file: File;
+  mask: Blob | null;
+  image: Blob | null;
+  notes: string | null;
+  error: GenerationFailure | null;
+}
+
+export interface StoredGeneration {
+  id: string;
+  parentId: string | null;
+  parentVariantId: string | null;
+  createdAt: number;
+  targetImage: File;
+  maskImage: Blob;
+  // Missing on projects saved before mask regions existed
+  regions?: StoredMaskRegion[];
+  prompt: string;
+  referenceIds: string[];
+  // Missing on projects saved before prompt templates existed
+  promptOptions?: PromptOptions;
+  providerId: string;
+  model: string;
+  variants: StoredVariant[];
+}
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppStep;
+  references: StoredReference[];
+  targetImage: File | null;
+  maskImage: Blob | null;
+  regions?: StoredMaskRegion[];
+  userPrompt: string;
+  promptOptions?: PromptOptions;
+  generations: StoredGeneration[];
+  activeGenerationId: string | null;
+  selectedVariantId: string | null;
+  refineSource: RefineSource | null;
+  // Missing on projects saved before batch mode existed
+  batch?: StoredBatchItem[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: Blob | null;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { downloadBlob, fileToBase64, generateId } from './utils';
+import { stubBrowserApis } from './testUtils';
+
+describe('fileToBase64', () => {
+  it('returns the file contents as base64 without the data URL prefix', async () => {
+    const file = new File(['storefront'], 'shop.jpg', { type: 'image/jpeg' });
+    const base64 = await fileToBase64(file);
+    expect(base64).toBe(btoa('storefront'));
+    expect(base64).not.toContain('data:');
+  });
+
+  it('handles binary contents', async () => {
+    const bytes = new Uint8Array([0, 255, 128, 10, 13]);
+    const base64 = await fileToBase64(new File([bytes], 'mask.png', { type: 'image/png' }));
+    expect(Uint8Array.from(atob(base64), c => c.charCodeAt(0))).toEqual(bytes);
+  });
+});
+
+describe('generateId', () => {
+  it('returns a short lowercase alphanumeric id', () => {
+    expect(generateId()).toMatch(/^[a-z0-9]{1,7}$/);
+  });
+
+  it('does not repeat across many calls', () => {
+    const ids = new Set(Array.from({ length: 1000 }, generateId));
+    expect(ids.size).toBe(1000);
+  });
+});
+
+describe('downloadBlob', () => {
+  it('clicks a link to the blob under the file name, then releases the URL', () => {
+    stubBrowserApis();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.href).toBe('blob:test/0');
+      expect(this.download).toBe('shop-batch.zip');
+    });
+
+    downloadBlob(new Blob(['zip']), 'shop-batch.zip');
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test/0');
+    expect(document.querySelector('a')).toBeNull();
+    click.mockRestore();
+  });
+});
@@ -1,23 +1,28 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server holds the Gemini key; see `npm run server`
+        proxy: {
+          '/api': `http://localhost:${process.env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // Tests sit next to the code they cover
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
+      },
     };
 });